@@ -0,0 +1,21 @@
+/** @type {import('jest').Config} */
+module.exports = {
+  testEnvironment: 'node',
+  roots: ['<rootDir>/src'],
+  transform: {
+    // Types are checked by `npm run typecheck`; jest only needs the code compiled for node
+    '^.+\\.tsx?$': [
+      'ts-jest',
+      {
+        tsconfig: {
+          module: 'commonjs',
+          moduleResolution: 'node',
+          esModuleInterop: true,
+          resolveJsonModule: true,
+          isolatedModules: true,
+          jsx: 'react-jsx'
+        }
+      }
+    ]
+  }
+}
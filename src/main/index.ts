@@ -2,6 +2,8 @@ import { app, shell, BrowserWindow, ipcMain } from 'electron'
 import { join } from 'path'
 import { electronApp, optimizer, is } from '@electron-toolkit/utils'
 import icon from '../../resources/icon.png?asset'
+import { registerReplayHandlers } from './replays'
+import { registerStorageHandlers } from './storage'
 
 function createWindow(): void {
   // Create the browser window.
@@ -56,6 +58,9 @@ app.whenReady().then(() => {
   // IPC test
   ipcMain.on('ping', () => console.log('pong'))
 
+  registerReplayHandlers()
+  registerStorageHandlers()
+
   createWindow()
 
   app.on('activate', function () {
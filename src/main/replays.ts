@@ -0,0 +1,39 @@
+import { app, BrowserWindow, dialog, ipcMain } from 'electron'
+import { readFile, writeFile } from 'fs/promises'
+import { join } from 'path'
+
+const REPLAY_FILTERS = [{ name: 'Word Duel Replay', extensions: ['json'] }]
+
+// Replays are opaque JSON to the main process; the renderer owns the format and its version check
+export function registerReplayHandlers(): void {
+  ipcMain.handle('replay:save', async (event, contents: string, fileName: string) => {
+    const window = BrowserWindow.fromWebContents(event.sender)
+    const options = {
+      title: 'Save Replay',
+      defaultPath: join(app.getPath('documents'), fileName),
+      filters: REPLAY_FILTERS
+    }
+    const { canceled, filePath } = window
+      ? await dialog.showSaveDialog(window, options)
+      : await dialog.showSaveDialog(options)
+
+    if (canceled || !filePath) return false
+    await writeFile(filePath, contents, 'utf-8')
+    return true
+  })
+
+  ipcMain.handle('replay:load', async (event) => {
+    const window = BrowserWindow.fromWebContents(event.sender)
+    const options = {
+      title: 'Open Replay',
+      properties: ['openFile' as const],
+      filters: REPLAY_FILTERS
+    }
+    const { canceled, filePaths } = window
+      ? await dialog.showOpenDialog(window, options)
+      : await dialog.showOpenDialog(options)
+
+    if (canceled || filePaths.length === 0) return null
+    return readFile(filePaths[0], 'utf-8')
+  })
+}
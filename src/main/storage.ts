@@ -0,0 +1,50 @@
+import { app, ipcMain } from 'electron'
+import { mkdir, readFile, rename, writeFile } from 'fs/promises'
+import { join } from 'path'
+
+// Each store is one JSON file in the user data folder; only these names can be read or written
+const STORE_FILES = {
+  ratings: 'ratings.json',
+  stats: 'stats.json',
+  profile: 'profile.json'
+} as const
+
+type StoreName = keyof typeof STORE_FILES
+
+function getStorePath(name: string): string {
+  if (!Object.prototype.hasOwnProperty.call(STORE_FILES, name)) {
+    throw new Error(`Unknown store: ${name}`)
+  }
+  return join(app.getPath('userData'), STORE_FILES[name as StoreName])
+}
+
+const writeQueues = new Map<string, Promise<void>>()
+
+// Written to a temp file first so a crash mid-write can't leave a truncated store behind
+async function writeStoreFile(filePath: string, contents: string): Promise<void> {
+  await mkdir(app.getPath('userData'), { recursive: true })
+  await writeFile(`${filePath}.tmp`, contents, 'utf-8')
+  await rename(`${filePath}.tmp`, filePath)
+}
+
+// Contents stay opaque here, like replays: the renderer owns each format and its validation
+export function registerStorageHandlers(): void {
+  ipcMain.handle('storage:read', async (_event, name: string) => {
+    try {
+      return await readFile(getStorePath(name), 'utf-8')
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null
+      throw error
+    }
+  })
+
+  ipcMain.handle('storage:write', (_event, name: string, contents: string) => {
+    const filePath = getStorePath(name)
+    // Queued per store so two quick saves can't interleave on the temp file
+    const write = (writeQueues.get(filePath) ?? Promise.resolve())
+      .catch(() => undefined)
+      .then(() => writeStoreFile(filePath, contents))
+    writeQueues.set(filePath, write)
+    return write
+  })
+}
@@ -1,8 +1,21 @@
 import { ElectronAPI } from '@electron-toolkit/preload'
 
+// Local JSON stores kept in the user data folder by the main process
+type StoreName = 'ratings' | 'stats' | 'profile'
+
+interface WordDuelAPI {
+  // Resolves false when the save dialog is cancelled
+  saveReplay: (contents: string, fileName: string) => Promise<boolean>
+  // Resolves null when the open dialog is cancelled
+  loadReplay: () => Promise<string | null>
+  // Resolves null when the store has never been written
+  readStore: (name: StoreName) => Promise<string | null>
+  writeStore: (name: StoreName, contents: string) => Promise<void>
+}
+
 declare global {
   interface Window {
     electron: ElectronAPI
-    api: unknown
+    api: WordDuelAPI
   }
 }
@@ -1,8 +1,15 @@
-import { contextBridge } from 'electron'
+import { contextBridge, ipcRenderer } from 'electron'
 import { electronAPI } from '@electron-toolkit/preload'
 
 // Custom APIs for renderer
-const api = {}
+const api = {
+  saveReplay: (contents: string, fileName: string): Promise<boolean> =>
+    ipcRenderer.invoke('replay:save', contents, fileName),
+  loadReplay: (): Promise<string | null> => ipcRenderer.invoke('replay:load'),
+  readStore: (name: string): Promise<string | null> => ipcRenderer.invoke('storage:read', name),
+  writeStore: (name: string, contents: string): Promise<void> =>
+    ipcRenderer.invoke('storage:write', name, contents)
+}
 
 // Use `contextBridge` APIs to expose Electron APIs to
 // renderer only if context isolation is enabled, otherwise
@@ -1,6 +1,7 @@
 import React from 'react'
 import wordleicon from './assets/wordleIcon.png'
 import dayjs from 'dayjs'
+import { getDayNumber } from './lib/daily'
 
 const App: React.FC = () => {
   return (
@@ -35,7 +36,7 @@ const App: React.FC = () => {
       {/* Footer Info */}
       <div className="text-center text-sm mt-4 space-y-1">
         <p>{dayjs().format('MMMM D, YYYY')}</p>
-        <p>No. {dayjs().diff('2020-06-19', 'day') + 1}</p>
+        <p>No. {getDayNumber()}</p>
         <p>Edited by Stevie</p>
       </div>
     </div>
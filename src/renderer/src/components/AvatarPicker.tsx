@@ -0,0 +1,51 @@
+import { useState } from 'react'
+import { motion } from 'framer-motion'
+import { AVATAR_EMOJIS } from '../lib/profile'
+
+interface AvatarPickerProps {
+  avatar: string
+  onAvatarChange: (avatar: string) => void
+  disabled?: boolean
+}
+
+export function AvatarPicker({ avatar, onAvatarChange, disabled = false }: AvatarPickerProps) {
+  const [isOpen, setIsOpen] = useState(false)
+
+  const handleSelect = (emoji: string) => {
+    onAvatarChange(emoji)
+    setIsOpen(false)
+  }
+
+  return (
+    <div className="relative">
+      <button
+        type="button"
+        onClick={() => setIsOpen((open) => !open)}
+        disabled={disabled}
+        title="Choose your avatar"
+        className="w-12 h-12 rounded-full ring-4 ring-gray-300 bg-gray-100 text-2xl flex items-center justify-center shadow-md hover:ring-gray-400 transition-all disabled:opacity-50"
+      >
+        {avatar}
+      </button>
+
+      {isOpen && (
+        <motion.div
+          initial={{ opacity: 0, y: -10 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="absolute z-10 mt-2 w-72 max-h-56 overflow-y-auto p-2 bg-white border border-gray-200 rounded-lg shadow-lg grid grid-cols-8 gap-1"
+        >
+          {AVATAR_EMOJIS.map((emoji) => (
+            <button
+              key={emoji}
+              type="button"
+              onClick={() => handleSelect(emoji)}
+              className={`text-xl rounded p-1 hover:bg-gray-100 ${emoji === avatar ? 'bg-gray-200' : ''}`}
+            >
+              {emoji}
+            </button>
+          ))}
+        </motion.div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,36 @@
+import { motion } from 'framer-motion'
+
+interface CurrentGuessProps {
+  guess: string
+  wordLength: number
+  isShaking?: boolean
+  onShakeComplete?: () => void
+}
+
+export function CurrentGuess({
+  guess,
+  wordLength,
+  isShaking = false,
+  onShakeComplete
+}: CurrentGuessProps) {
+  return (
+    <motion.div
+      animate={isShaking ? { x: [0, -10, 10, -10, 10, 0] } : { x: 0 }}
+      transition={{ duration: 0.4 }}
+      onAnimationComplete={() => isShaking && onShakeComplete?.()}
+      className="text-2xl font-mono text-gray-800 mb-2"
+    >
+      {guess
+        .padEnd(wordLength, '_')
+        .split('')
+        .map((char, index) => (
+          <span
+            key={index}
+            className="inline-block w-8 h-8 border-2 border-gray-300 mx-1 rounded flex items-center justify-center"
+          >
+            {char === '_' ? '' : char}
+          </span>
+        ))}
+    </motion.div>
+  )
+}
@@ -1,26 +1,54 @@
 import { useState, useEffect } from 'react'
 import { motion, AnimatePresence } from 'framer-motion'
-import validWordsData from '../data/validWords.json'
+import { getAnswerList, getRandomAnswer, getWordList, isDictionaryWord } from '../lib/dictionary'
 
 interface CustomWordInputProps {
   onWordSubmit: (word: string) => void
   onRandomWord: () => void
+  wordLength?: number
   disabled?: boolean
   isLoading?: boolean
 }
 
-export function CustomWordInput({ onWordSubmit, onRandomWord: _onRandomWord, disabled = false, isLoading = false }: CustomWordInputProps) {
+// Handy suggestions for each supported word length
+const QUICK_PICKS: Record<number, string[]> = {
+  4: ['FAST', 'GAME', 'PLAY', 'WORD', 'DUEL', 'WINS', 'QUIZ', 'TILE'],
+  5: ['HELLO', 'WORLD', 'GAMES', 'PLAYS', 'SMART', 'BRAIN', 'QUICK', 'GUESS'],
+  6: ['PLAYER', 'PUZZLE', 'LETTER', 'GAMING', 'BATTLE', 'SMARTS', 'WINNER', 'FRIEND'],
+  7: ['PLAYERS', 'PUZZLES', 'LETTERS', 'BATTLES', 'WINNERS', 'GUESSED', 'QUICKLY', 'MASTERY'],
+  8: [
+    'CHAMPION',
+    'PUZZLING',
+    'STRATEGY',
+    'SHOWDOWN',
+    'KEYBOARD',
+    'QUESTION',
+    'TRIUMPHS',
+    'CONTESTS'
+  ]
+}
+
+export function CustomWordInput({
+  onWordSubmit,
+  onRandomWord: _onRandomWord,
+  wordLength = 5,
+  disabled = false,
+  isLoading = false
+}: CustomWordInputProps) {
   const [customWord, setCustomWord] = useState('')
   const [isValid, setIsValid] = useState(false)
   const [validationMessage, setValidationMessage] = useState('')
   const [searchResults, setSearchResults] = useState<string[]>([])
 
-  // Use the comprehensive word list from JSON
+  // Answers are curated common words; guesses may come from the full dictionary
+  const validWordsData = getWordList(wordLength)
+  const answerWordsData = getAnswerList(wordLength)
   const validWords = validWordsData.words
+  const quickPicks = QUICK_PICKS[wordLength] ?? []
 
   useEffect(() => {
     validateWord(customWord)
-  }, [customWord])
+  }, [customWord, wordLength])
 
   const validateWord = async (word: string) => {
     if (!word) {
@@ -30,9 +58,9 @@ export function CustomWordInput({ onWordSubmit, onRandomWord: _onRandomWord, dis
       return
     }
 
-    if (word.length !== 5) {
+    if (word.length !== wordLength) {
       setIsValid(false)
-      setValidationMessage('Word must be exactly 5 letters')
+      setValidationMessage(`Word must be exactly ${wordLength} letters`)
       setSearchResults([])
       return
     }
@@ -45,7 +73,7 @@ export function CustomWordInput({ onWordSubmit, onRandomWord: _onRandomWord, dis
     }
 
     // First check local validation for immediate feedback
-    if (validWords.includes(word)) {
+    if (isDictionaryWord(word)) {
       setIsValid(true)
       setValidationMessage('✅ Valid word!')
       setSearchResults([])
@@ -80,13 +108,8 @@ export function CustomWordInput({ onWordSubmit, onRandomWord: _onRandomWord, dis
     setSearchResults([])
   }
 
-  const getRandomWord = () => {
-    const randomIndex = Math.floor(Math.random() * validWords.length)
-    return validWords[randomIndex]
-  }
-
   const handleRandomWord = () => {
-    const randomWord = getRandomWord()
+    const randomWord = getRandomAnswer(wordLength)
     setCustomWord(randomWord)
     setSearchResults([])
   }
@@ -98,18 +121,18 @@ export function CustomWordInput({ onWordSubmit, onRandomWord: _onRandomWord, dis
       <div className="space-y-4">
         {/* Custom Word Input */}
         <div>
-          <label className="block text-sm font-medium mb-2">Enter a 5-letter word</label>
+          <label className="block text-sm font-medium mb-2">Enter a {wordLength}-letter word</label>
           <div className="flex gap-2">
             <input
               type="text"
               value={customWord}
               onChange={(e) => setCustomWord(e.target.value.toUpperCase())}
               onKeyPress={handleKeyPress}
-              placeholder="e.g., HELLO"
-              maxLength={5}
+              placeholder={`e.g., ${quickPicks[0]}`}
+              maxLength={wordLength}
               disabled={disabled || isLoading}
               className={`flex-1 px-4 py-3 border-2 rounded-lg focus:ring-2 focus:ring-[#1a1a1a] focus:border-transparent transition-colors ${
-                customWord.length === 5
+                customWord.length === wordLength
                   ? isValid
                     ? 'border-green-500 bg-green-50'
                     : 'border-red-500 bg-red-50'
@@ -184,9 +207,20 @@ export function CustomWordInput({ onWordSubmit, onRandomWord: _onRandomWord, dis
             </summary>
             <div className="mt-2 p-3 bg-gray-100 rounded-lg">
               <div className="text-xs space-y-1">
-                <div>Total valid words: <span className="font-semibold">{validWords.length.toLocaleString()}</span></div>
-                <div>Source: <span className="font-semibold">{validWordsData.source}</span></div>
-                <div>Description: <span className="font-semibold">{validWordsData.description}</span></div>
+                <div>
+                  Answer words:{' '}
+                  <span className="font-semibold">{answerWordsData.count.toLocaleString()}</span>
+                </div>
+                <div>
+                  Allowed guesses:{' '}
+                  <span className="font-semibold">{validWords.length.toLocaleString()}</span>
+                </div>
+                <div>
+                  Answer source: <span className="font-semibold">{answerWordsData.source}</span>
+                </div>
+                <div>
+                  Dictionary source: <span className="font-semibold">{validWordsData.source}</span>
+                </div>
               </div>
             </div>
           </details>
@@ -200,7 +234,7 @@ export function CustomWordInput({ onWordSubmit, onRandomWord: _onRandomWord, dis
             </summary>
             <div className="mt-2 p-3 bg-gray-100 rounded-lg">
               <div className="grid grid-cols-4 gap-2 text-xs">
-                {['HELLO', 'WORLD', 'GAMES', 'PLAYS', 'SMART', 'BRAIN', 'QUICK', 'FAST'].map((word, index) => (
+                {quickPicks.map((word, index) => (
                   <button
                     key={index}
                     onClick={() => handleWordSuggestion(word)}
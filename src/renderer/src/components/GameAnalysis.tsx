@@ -0,0 +1,142 @@
+import { useMemo, useState } from 'react'
+import { motion } from 'framer-motion'
+import type { GameTile, Player } from '../stores/gameStore'
+import { analyzePlayer } from '../lib/analysis'
+
+interface GameAnalysisProps {
+  players: Player[]
+  // Every player's board by player id
+  boards: Record<string, GameTile[][]>
+  solution: string
+  currentPlayerId?: string
+}
+
+export function GameAnalysis({ players, boards, solution, currentPlayerId }: GameAnalysisProps) {
+  const analyses = useMemo(
+    () =>
+      players
+        .map((player) => analyzePlayer(player, boards[player.id] ?? [], solution.toUpperCase()))
+        .filter((analysis) => analysis.guesses.length > 0),
+    [players, boards, solution]
+  )
+  const [selectedId, setSelectedId] = useState(currentPlayerId)
+
+  if (analyses.length === 0) return null
+
+  const selected = analyses.find((analysis) => analysis.player.id === selectedId) || analyses[0]
+
+  const getTileColor = (status: GameTile['status']) => {
+    switch (status) {
+      case 'correct':
+        return 'bg-green-500 text-white'
+      case 'present':
+        return 'bg-yellow-500 text-white'
+      default:
+        return 'bg-gray-500 text-white'
+    }
+  }
+
+  const getSkillColor = (skill: number) => {
+    if (skill >= 90) return 'text-green-600'
+    if (skill >= 70) return 'text-yellow-600'
+    return 'text-red-600'
+  }
+
+  const getLuckLabel = (luck: number) => {
+    if (luck >= 75) return '🍀 Lucky'
+    if (luck <= 25) return '🌧️ Unlucky'
+    return '⚖️ Average'
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-6 mb-8">
+      <h3 className="text-2xl font-bold mb-2 text-center">🧠 Guess Analysis</h3>
+      <p className="text-sm text-gray-500 text-center mb-4">
+        Skill compares each guess with the best one available. Luck shows how kind the feedback was.
+      </p>
+
+      {/* Player Tabs */}
+      {analyses.length > 1 && (
+        <div className="flex flex-wrap justify-center gap-2 mb-6">
+          {analyses.map((analysis) => (
+            <button
+              key={analysis.player.id}
+              onClick={() => setSelectedId(analysis.player.id)}
+              className={`px-3 py-1 rounded-full text-sm font-semibold transition-colors ${
+                analysis.player.id === selected.player.id
+                  ? 'bg-[#1a1a1a] text-white'
+                  : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+              }`}
+            >
+              {analysis.player.username}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {/* Summary */}
+      <div className="grid grid-cols-2 gap-4 mb-6 text-center">
+        <div className="p-3 bg-gray-50 rounded-lg">
+          <div className={`text-2xl font-bold ${getSkillColor(selected.averageSkill)}`}>
+            {selected.averageSkill}
+          </div>
+          <div className="text-sm text-gray-500">Average skill</div>
+        </div>
+        <div className="p-3 bg-gray-50 rounded-lg">
+          <div className="text-2xl font-bold text-[#1a1a1a]">{selected.averageLuck}</div>
+          <div className="text-sm text-gray-500">Average luck</div>
+        </div>
+      </div>
+
+      {/* Guesses */}
+      <div className="space-y-3">
+        {selected.guesses.map((guess, index) => (
+          <motion.div
+            key={`${selected.player.id}-${guess.attempt}`}
+            initial={{ opacity: 0, x: -20 }}
+            animate={{ opacity: 1, x: 0 }}
+            transition={{ delay: index * 0.05 }}
+            className="p-3 border border-gray-200 rounded-lg"
+          >
+            <div className="flex items-center justify-between mb-2">
+              <div className="flex gap-1">
+                {guess.pattern.map((tile, colIndex) => (
+                  <div
+                    key={colIndex}
+                    className={`w-8 h-8 flex items-center justify-center text-sm font-bold rounded ${getTileColor(tile.status)}`}
+                  >
+                    {tile.letter}
+                  </div>
+                ))}
+              </div>
+              <div className="text-right text-sm">
+                <span className="font-semibold">{guess.candidatesBefore.toLocaleString()}</span>
+                <span className="text-gray-500"> → </span>
+                <span className="font-semibold">{guess.candidatesAfter.toLocaleString()}</span>
+                <span className="text-gray-500"> words</span>
+              </div>
+            </div>
+
+            <div className="flex flex-wrap justify-between gap-2 text-sm">
+              <span>
+                <span className="text-gray-500">Skill </span>
+                <span className={`font-semibold ${getSkillColor(guess.skill)}`}>{guess.skill}</span>
+                {guess.bestGuess && guess.bestGuess !== guess.word && (
+                  <span className="text-gray-500">
+                    {' '}
+                    • best was {guess.bestGuess} ({guess.bestInformation.toFixed(1)} bits)
+                  </span>
+                )}
+              </span>
+              <span>
+                <span className="text-gray-500">Luck </span>
+                <span className="font-semibold">{guess.luck}</span>
+                <span className="text-gray-500"> {getLuckLabel(guess.luck)}</span>
+              </span>
+            </div>
+          </motion.div>
+        ))}
+      </div>
+    </div>
+  )
+}
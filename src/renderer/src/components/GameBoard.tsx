@@ -2,8 +2,17 @@ import { motion } from 'framer-motion'
 import { useGameStore } from '../stores/gameStore'
 import type { GameTile } from '../stores/gameStore'
 
-export function GameBoard() {
-  const { gameBoard } = useGameStore()
+interface GameBoardProps {
+  // Renders this board instead of the multiplayer board in the store
+  board?: GameTile[][]
+  // Smaller tiles for showing several boards side by side
+  compact?: boolean
+}
+
+export function GameBoard({ board, compact = false }: GameBoardProps = {}) {
+  const { gameBoard: storeBoard } = useGameStore()
+  const gameBoard = board ?? storeBoard
+  const wordLength = gameBoard[0]?.length ?? 5
 
   const getTileColor = (status: GameTile['status']) => {
     switch (status) {
@@ -18,9 +27,17 @@ export function GameBoard() {
     }
   }
 
+  // Shrink tiles for longer words so the board keeps its width
+  const getTileSize = () => {
+    if (compact) return wordLength >= 7 ? 'w-7 h-7 text-sm' : 'w-9 h-9 text-base'
+    if (wordLength >= 7) return 'w-12 h-12 text-xl'
+    if (wordLength === 6) return 'w-14 h-14 text-2xl'
+    return 'w-16 h-16 text-2xl'
+  }
+
   return (
     <div className="flex justify-center">
-      <div className="grid grid-rows-6 gap-2">
+      <div className="flex flex-col gap-2">
         {gameBoard.map((row, rowIndex) => (
           <motion.div
             key={rowIndex}
@@ -35,7 +52,7 @@ export function GameBoard() {
                 initial={{ scale: 0.8 }}
                 animate={{ scale: 1 }}
                 transition={{ delay: rowIndex * 0.1 + colIndex * 0.05 }}
-                className={`w-16 h-16 flex items-center justify-center text-2xl font-bold rounded-lg shadow-md transition-all duration-300 ${getTileColor(tile.status)}`}
+                className={`${getTileSize()} flex items-center justify-center font-bold rounded-lg shadow-md transition-all duration-300 ${getTileColor(tile.status)}`}
               >
                 {tile.letter}
               </motion.div>
@@ -1,32 +1,59 @@
-import { useState, useEffect } from 'react'
+import { useState, useEffect, useRef } from 'react'
 import { motion } from 'framer-motion'
+import type { GameMode, Player } from '../stores/gameStore'
+import { GAME_MODES } from '../lib/modes'
+import { getFlaggedPlayer, getRemainingMs } from '../lib/chessClock'
+import type { ChessClockState } from '../lib/chessClock'
+import { socketService } from '../services/socketService'
+
+// Seconds left at which the clock turns to a warning, then a critical state
+const WARNING_SECONDS = 30
+const CRITICAL_SECONDS = 10
 
 interface GameTimerProps {
-  startTime: Date | null
+  // When the game started according to the server
+  startTime: Date | string | number | null
+  // Seconds allowed from startTime
+  timeLimit: number
   isActive: boolean
-  mode: 'duel' | 'battleRoyale'
+  mode: GameMode
   onTimeUp?: () => void
 }
 
-export function GameTimer({ startTime, isActive, mode, onTimeUp: _onTimeUp }: GameTimerProps) {
-  const [elapsedTime, setElapsedTime] = useState(0)
-  const [isPaused, setIsPaused] = useState(false)
+function getSecondsLeft(startTime: GameTimerProps['startTime'], timeLimit: number): number {
+  if (startTime === null) return timeLimit
+  const elapsed = socketService.now() - new Date(startTime).getTime()
+  return Math.max(0, Math.ceil(timeLimit - elapsed / 1000))
+}
+
+export function GameTimer({ startTime, timeLimit, isActive, mode, onTimeUp }: GameTimerProps) {
+  const [secondsLeft, setSecondsLeft] = useState(() => getSecondsLeft(startTime, timeLimit))
+  // Fires onTimeUp once per game, even though the effect re-runs on every new callback
+  const timeUpFiredRef = useRef(false)
+  const onTimeUpRef = useRef(onTimeUp)
+  onTimeUpRef.current = onTimeUp
 
   useEffect(() => {
-    let interval: NodeJS.Timeout
-
-    if (isActive && startTime && !isPaused) {
-      interval = setInterval(() => {
-        const now = new Date()
-        const elapsed = Math.floor((now.getTime() - startTime.getTime()) / 1000)
-        setElapsedTime(elapsed)
-      }, 1000)
-    }
+    timeUpFiredRef.current = false
+  }, [startTime, timeLimit])
 
-    return () => {
-      if (interval) clearInterval(interval)
+  useEffect(() => {
+    const tick = () => {
+      const left = getSecondsLeft(startTime, timeLimit)
+      setSecondsLeft(left)
+      if (left === 0 && isActive && startTime !== null && !timeUpFiredRef.current) {
+        timeUpFiredRef.current = true
+        onTimeUpRef.current?.()
+      }
     }
-  }, [isActive, startTime, isPaused])
+
+    tick()
+    if (!isActive || startTime === null) return
+
+    // Ticks faster than once a second so the display never skips a number
+    const interval = setInterval(tick, 250)
+    return () => clearInterval(interval)
+  }, [isActive, startTime, timeLimit])
 
   const formatTime = (seconds: number) => {
     const mins = Math.floor(seconds / 60)
@@ -35,51 +62,55 @@ export function GameTimer({ startTime, isActive, mode, onTimeUp: _onTimeUp }: Ga
   }
 
   const getModeIcon = () => {
-    return mode === 'duel' ? '⚔️' : '🏆'
+    return GAME_MODES[mode].icon
+  }
+
+  const isCritical = isActive && secondsLeft <= CRITICAL_SECONDS
+  const isWarning = isActive && secondsLeft <= WARNING_SECONDS
+
+  const getClockColor = () => {
+    if (isCritical) return 'bg-red-500'
+    if (isWarning) return 'bg-yellow-500'
+    return mode === 'battleRoyale' ? 'bg-purple-500' : 'bg-blue-500'
   }
 
-  const getModeColor = () => {
-    return mode === 'duel' ? 'bg-blue-500' : 'bg-purple-500'
+  const getStatus = () => {
+    if (!isActive) return { label: '⏹️ Ended', className: 'bg-gray-100 text-gray-800' }
+    if (secondsLeft === 0) return { label: "⏰ Time's up", className: 'bg-red-100 text-red-800' }
+    if (isCritical) return { label: '🚨 10 seconds left!', className: 'bg-red-100 text-red-800' }
+    if (isWarning)
+      return { label: '⚠️ 30 seconds left', className: 'bg-yellow-100 text-yellow-800' }
+    return { label: '🎮 Active', className: 'bg-green-100 text-green-800' }
   }
 
+  const status = getStatus()
+
   return (
     <motion.div
       initial={{ opacity: 0, y: -20 }}
       animate={{ opacity: 1, y: 0 }}
-      className="bg-white rounded-lg shadow-md p-4 mb-4"
+      className={`bg-white rounded-lg shadow-md p-4 mb-4 ${isCritical ? 'ring-2 ring-red-500' : ''}`}
     >
       <div className="flex items-center justify-between">
         <div className="flex items-center gap-3">
           <span className="text-2xl">{getModeIcon()}</span>
           <div>
-            <div className="text-sm font-medium text-gray-600">
-              {mode === 'duel' ? 'Duel Timer' : 'Battle Royale Timer'}
-            </div>
-            <div className="text-lg font-bold text-gray-800">
-              {formatTime(elapsedTime)}
-            </div>
+            <div className="text-sm font-medium text-gray-600">Time Remaining</div>
+            <motion.div
+              key={isCritical ? secondsLeft : 'steady'}
+              initial={isCritical ? { scale: 1.2 } : false}
+              animate={{ scale: 1 }}
+              className={`text-lg font-bold ${isCritical ? 'text-red-600' : isWarning ? 'text-yellow-600' : 'text-gray-800'}`}
+            >
+              {formatTime(secondsLeft)}
+            </motion.div>
           </div>
         </div>
 
-        <div className="flex items-center gap-2">
-          {/* Pause/Resume Button */}
-          <button
-            onClick={() => setIsPaused(!isPaused)}
-            disabled={!isActive}
-            className={`px-3 py-1 rounded text-xs font-medium transition-colors ${
-              isActive
-                ? isPaused
-                  ? 'bg-green-500 text-white hover:bg-green-600'
-                  : 'bg-yellow-500 text-white hover:bg-yellow-600'
-                : 'bg-gray-300 text-gray-500 cursor-not-allowed'
-            }`}
-          >
-            {isPaused ? '▶️ Resume' : '⏸️ Pause'}
-          </button>
-
-          {/* Status Indicator */}
-          <div className={`w-3 h-3 rounded-full ${getModeColor()} ${isActive ? 'animate-pulse' : ''}`} />
-        </div>
+        {/* Status Indicator */}
+        <div
+          className={`w-3 h-3 rounded-full ${getClockColor()} ${isActive ? 'animate-pulse' : ''}`}
+        />
       </div>
 
       {/* Progress Bar */}
@@ -87,56 +118,169 @@ export function GameTimer({ startTime, isActive, mode, onTimeUp: _onTimeUp }: Ga
         <div className="mt-3">
           <div className="w-full bg-gray-200 rounded-full h-2">
             <motion.div
-              className={`h-2 rounded-full ${getModeColor()}`}
-              initial={{ width: 0 }}
-              animate={{ width: `${Math.min((elapsedTime / 300) * 100, 100)}%` }}
+              className={`h-2 rounded-full ${getClockColor()}`}
+              initial={{ width: '100%' }}
+              animate={{ width: `${timeLimit > 0 ? (secondsLeft / timeLimit) * 100 : 0}%` }}
               transition={{ duration: 0.5 }}
             />
           </div>
-          <div className="text-xs text-gray-500 mt-1 text-center">
-            Game in progress...
-          </div>
         </div>
       )}
 
       {/* Game Status */}
       <div className="mt-2 text-center">
-        <span className={`inline-block px-2 py-1 rounded-full text-xs font-medium ${
-          isActive
-            ? isPaused
-              ? 'bg-yellow-100 text-yellow-800'
-              : 'bg-green-100 text-green-800'
-            : 'bg-gray-100 text-gray-800'
-        }`}>
-          {isActive ? (isPaused ? '⏸️ Paused' : '🎮 Active') : '⏹️ Ended'}
+        <span
+          className={`inline-block px-2 py-1 rounded-full text-xs font-medium ${status.className}`}
+        >
+          {status.label}
         </span>
       </div>
     </motion.div>
   )
 }
 
+// Chess Clock Timer Component
+interface ChessClockTimerProps {
+  players: Player[]
+  clock: ChessClockState
+  incrementSeconds: number
+  currentPlayerId?: string
+  // Called once when a player's bank reaches zero
+  onFlag?: (playerId: string) => void
+}
+
+export function ChessClockTimer({
+  players,
+  clock,
+  incrementSeconds,
+  currentPlayerId,
+  onFlag
+}: ChessClockTimerProps) {
+  // Turn timestamps are on the server's clock, so the banks are too
+  const [now, setNow] = useState(() => socketService.now())
+  const flaggedRef = useRef<string | null>(null)
+  const onFlagRef = useRef(onFlag)
+  onFlagRef.current = onFlag
+
+  useEffect(() => {
+    if (!clock.activePlayerId) return
+
+    const interval = setInterval(() => setNow(socketService.now()), 100)
+    return () => clearInterval(interval)
+  }, [clock.activePlayerId])
+
+  useEffect(() => {
+    const flagged = getFlaggedPlayer(clock, now)
+    if (flagged && flaggedRef.current !== flagged) {
+      flaggedRef.current = flagged
+      onFlagRef.current?.(flagged)
+    }
+  }, [clock, now])
+
+  const formatClock = (ms: number) => {
+    const totalSeconds = Math.ceil(ms / 1000)
+    const mins = Math.floor(totalSeconds / 60)
+    const secs = totalSeconds % 60
+    // Tenths once the bank is nearly empty
+    if (ms < CRITICAL_SECONDS * 1000) return `${secs}.${Math.floor((ms % 1000) / 100)}`
+    return `${mins}:${secs.toString().padStart(2, '0')}`
+  }
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: -20 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="bg-white rounded-lg shadow-md p-4 mb-4"
+    >
+      <div className="grid grid-cols-2 gap-3">
+        {players.map((player) => {
+          const remaining = getRemainingMs(clock, player.id, now)
+          const isActive = clock.activePlayerId === player.id
+          const isCritical = remaining < CRITICAL_SECONDS * 1000
+
+          return (
+            <div
+              key={player.id}
+              className={`p-3 rounded-lg border-2 text-center transition-colors ${
+                remaining === 0
+                  ? 'border-red-500 bg-red-50'
+                  : isActive
+                    ? 'border-[#1a1a1a] bg-gray-50'
+                    : 'border-gray-200 opacity-70'
+              }`}
+            >
+              <div className="text-sm font-medium text-gray-600 truncate">
+                {player.username}
+                {player.id === currentPlayerId && ' (you)'}
+              </div>
+              <div
+                className={`text-3xl font-mono font-bold ${
+                  isCritical
+                    ? 'text-red-600'
+                    : remaining < WARNING_SECONDS * 1000
+                      ? 'text-yellow-600'
+                      : 'text-gray-800'
+                }`}
+              >
+                {formatClock(remaining)}
+              </div>
+              <div className="text-xs text-gray-500">
+                {remaining === 0 ? '⌛ Flagged' : isActive ? '⏳ Thinking...' : 'Waiting'}
+              </div>
+            </div>
+          )
+        })}
+      </div>
+      {incrementSeconds > 0 && (
+        <div className="text-xs text-gray-500 mt-2 text-center">
+          +{incrementSeconds}s added after each guess
+        </div>
+      )}
+    </motion.div>
+  )
+}
+
 // Countdown Timer Component
 interface CountdownTimerProps {
+  // Full length of the countdown, used for the progress bar
   seconds: number
   onComplete: () => void
   label?: string
+  // When the countdown hits zero on the server's clock; defaults to `seconds` from mount
+  endsAt?: number
 }
 
-export function CountdownTimer({ seconds, onComplete, label = 'Starting in' }: CountdownTimerProps) {
-  const [timeLeft, setTimeLeft] = useState(seconds)
+function getCountdownLeft(endsAt: number): number {
+  return Math.max(0, Math.ceil((endsAt - socketService.now()) / 1000))
+}
+
+export function CountdownTimer({
+  seconds,
+  onComplete,
+  label = 'Starting in',
+  endsAt
+}: CountdownTimerProps) {
+  const [fallbackEndsAt] = useState(() => socketService.now() + seconds * 1000)
+  const deadline = endsAt ?? fallbackEndsAt
+  const [timeLeft, setTimeLeft] = useState(() => getCountdownLeft(deadline))
+  const completedRef = useRef(false)
+  const onCompleteRef = useRef(onComplete)
+  onCompleteRef.current = onComplete
 
   useEffect(() => {
-    if (timeLeft <= 0) {
-      onComplete()
-      return
+    const tick = () => {
+      const left = getCountdownLeft(deadline)
+      setTimeLeft(left)
+      if (left === 0 && !completedRef.current) {
+        completedRef.current = true
+        onCompleteRef.current()
+      }
     }
 
-    const timer = setInterval(() => {
-      setTimeLeft(prev => prev - 1)
-    }, 1000)
-
+    tick()
+    const timer = setInterval(tick, 250)
     return () => clearInterval(timer)
-  }, [timeLeft, onComplete])
+  }, [deadline])
 
   const getProgressColor = () => {
     if (timeLeft > seconds * 0.6) return 'bg-green-500'
@@ -161,7 +305,7 @@ export function CountdownTimer({ seconds, onComplete, label = 'Starting in' }: C
         <motion.div
           className={`h-3 rounded-full ${getProgressColor()}`}
           initial={{ width: '100%' }}
-          animate={{ width: `${(timeLeft / seconds) * 100}%` }}
+          animate={{ width: `${Math.min(100, (timeLeft / seconds) * 100)}%` }}
           transition={{ duration: 0.5 }}
         />
       </div>
@@ -1,10 +1,22 @@
 import { motion } from 'framer-motion'
+import { useGameStore, selectLetterStatuses } from '../stores/gameStore'
+import type { LetterStatus } from '../stores/gameStore'
 
 interface KeyboardProps {
   onKeyPress: (key: string) => void
+  // Overrides the statuses derived from the multiplayer board in the store
+  letterStatuses?: Record<string, LetterStatus>
+  disabled?: boolean
 }
 
-export function Keyboard({ onKeyPress }: KeyboardProps) {
+export function Keyboard({
+  onKeyPress,
+  letterStatuses: letterStatusesOverride,
+  disabled = false
+}: KeyboardProps) {
+  const storeLetterStatuses = useGameStore(selectLetterStatuses)
+  const letterStatuses = letterStatusesOverride ?? storeLetterStatuses
+
   const rows = [
     ['Q', 'W', 'E', 'R', 'T', 'Y', 'U', 'I', 'O', 'P'],
     ['A', 'S', 'D', 'F', 'G', 'H', 'J', 'K', 'L'],
@@ -22,7 +34,16 @@ export function Keyboard({ onKeyPress }: KeyboardProps) {
       return `${baseClass} bg-red-500 text-white hover:bg-red-600`
     }
     
-    return `${baseClass} bg-gray-200 text-gray-800 hover:bg-gray-300`
+    switch (letterStatuses[key]) {
+      case 'correct':
+        return `${baseClass} bg-green-500 text-white hover:bg-green-600`
+      case 'present':
+        return `${baseClass} bg-yellow-500 text-white hover:bg-yellow-600`
+      case 'absent':
+        return `${baseClass} bg-gray-500 text-white hover:bg-gray-600`
+      default:
+        return `${baseClass} bg-gray-200 text-gray-800 hover:bg-gray-300`
+    }
   }
 
   return (
@@ -41,7 +62,8 @@ export function Keyboard({ onKeyPress }: KeyboardProps) {
               whileHover={{ scale: 1.05 }}
               whileTap={{ scale: 0.95 }}
               onClick={() => onKeyPress(key)}
-              className={getKeyClass(key)}
+              disabled={disabled}
+              className={`${getKeyClass(key)} ${disabled ? 'opacity-50 cursor-not-allowed' : ''}`}
             >
               {key === 'BACKSPACE' ? '⌫' : key}
             </motion.button>
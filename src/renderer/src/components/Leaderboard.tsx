@@ -1,48 +1,52 @@
 import { motion } from 'framer-motion'
-import type { Player } from '../stores/gameStore'
+import { DEFAULT_ROOM_SETTINGS } from '../stores/gameStore'
+import type { GameMode, GameTile, Player } from '../stores/gameStore'
+import { GAME_MODES } from '../lib/modes'
+import type { StatsSummary } from '../lib/stats'
+import { getRevealedRows } from '../lib/utils'
 
 interface LeaderboardProps {
   players: Player[]
-  mode: 'duel' | 'battleRoyale'
+  mode: GameMode
   showStats?: boolean
+  maxAttempts?: number
+  // Boards by player id for the current game
+  boards?: Record<string, GameTile[][]>
+  // Lifetime stats by player id; only known for players who have played on this machine
+  lifetimeStats?: Record<string, StatsSummary>
 }
 
 interface PlayerStats {
   player: Player
-  gamesPlayed: number
-  gamesWon: number
-  averageAttempts: number
-  winRate: number
+  attempts: number
+  lifetime: StatsSummary | null
 }
 
-export function Leaderboard({ players, mode, showStats = true }: LeaderboardProps) {
-  // Calculate player statistics
-  const playerStats: PlayerStats[] = players.map(player => {
-    const gamesPlayed = player.guesses?.length || 0
-    const gamesWon = player.won ? 1 : 0
-    const totalAttempts = player.guesses?.reduce((sum, guess) => sum + guess.attempt, 0) || 0
-    const averageAttempts = gamesPlayed > 0 ? totalAttempts / gamesPlayed : 0
-    const winRate = gamesPlayed > 0 ? (gamesWon / gamesPlayed) * 100 : 0
+export function Leaderboard({
+  players,
+  mode,
+  showStats = true,
+  maxAttempts = DEFAULT_ROOM_SETTINGS.maxAttempts,
+  boards = {},
+  lifetimeStats = {}
+}: LeaderboardProps) {
+  // Boards only cover the current game, so lifetime numbers come from the stats store
+  const playerStats: PlayerStats[] = players.map((player) => ({
+    player,
+    attempts: getRevealedRows(boards[player.id] ?? []).length,
+    lifetime: lifetimeStats[player.id] ?? null
+  }))
 
-    return {
-      player,
-      gamesPlayed,
-      gamesWon,
-      averageAttempts,
-      winRate
-    }
-  })
-
-  // Sort by win rate, then by average attempts
+  // Sort by score, then by fewer attempts this game
   const sortedStats = playerStats.sort((a, b) => {
-    if (a.winRate !== b.winRate) return b.winRate - a.winRate
-    return a.averageAttempts - b.averageAttempts
+    if (a.player.score !== b.player.score) return b.player.score - a.player.score
+    return a.attempts - b.attempts
   })
 
   return (
     <div className="bg-white rounded-lg shadow-md p-6 mb-6">
       <h3 className="text-xl font-bold mb-4 text-center">
-        {mode === 'duel' ? '⚔️ Duel Leaderboard' : '🏆 Battle Royale Leaderboard'}
+        {GAME_MODES[mode].icon} {GAME_MODES[mode].label} Leaderboard
       </h3>
       
       <div className="space-y-3">
@@ -72,27 +76,24 @@ export function Leaderboard({ players, mode, showStats = true }: LeaderboardProp
               )}
             </div>
             
-            {showStats ? (
+            {showStats && stats.lifetime ? (
               <div className="text-right text-sm">
-                <div className="font-semibold">
-                  Win Rate: {stats.winRate.toFixed(1)}%
-                </div>
+                <div className="font-semibold">Win Rate: {stats.lifetime.winRate.toFixed(1)}%</div>
                 <div className="text-gray-600">
-                  {stats.gamesWon}/{stats.gamesPlayed} games
+                  {stats.lifetime.wins}/{stats.lifetime.played} games
                 </div>
-                {stats.averageAttempts > 0 && (
-                  <div className="text-gray-500">
-                    Avg: {stats.averageAttempts.toFixed(1)} attempts
-                  </div>
+                {stats.lifetime.currentStreak > 0 && (
+                  <div className="text-gray-500">🔥 {stats.lifetime.currentStreak} win streak</div>
                 )}
               </div>
             ) : (
               <div className="text-right">
+                <div className="font-bold">{stats.player.score} pts</div>
                 {stats.player.won ? (
                   <span className="text-green-600 font-bold">Winner!</span>
                 ) : (
                   <span className="text-gray-600">
-                    {stats.gamesPlayed}/6 attempts
+                    {stats.attempts}/{maxAttempts} attempts
                   </span>
                 )}
               </div>
@@ -1,8 +1,9 @@
 import { motion } from 'framer-motion'
+import type { GameMode } from '../stores/gameStore'
 
 interface ModeSelectorProps {
-  selectedMode: 'duel' | 'battleRoyale'
-  onModeChange: (mode: 'duel' | 'battleRoyale') => void
+  selectedMode: GameMode
+  onModeChange: (mode: GameMode) => void
   disabled?: boolean
 }
 
@@ -48,6 +49,25 @@ export function ModeSelector({ selectedMode, onModeChange, disabled = false }: M
             <div className="text-xs mt-2 opacity-60">Up to 8 players</div>
           </div>
         </motion.button>
+
+        {/* Chess Clock Mode */}
+        <motion.button
+          whileHover={{ scale: disabled ? 1 : 1.02 }}
+          whileTap={{ scale: disabled ? 1 : 0.98 }}
+          onClick={() => !disabled && onModeChange('chessClock')}
+          disabled={disabled}
+          className={`flex-1 p-4 rounded-lg border-2 transition-all ${
+            selectedMode === 'chessClock'
+              ? 'border-[#1a1a1a] bg-[#1a1a1a] text-white'
+              : 'border-gray-300 bg-white text-gray-700 hover:border-gray-400'
+          } ${disabled ? 'opacity-50 cursor-not-allowed' : 'cursor-pointer'}`}
+        >
+          <div className="text-center">
+            <div className="text-lg font-bold mb-1">♟️ Chess Clock</div>
+            <div className="text-sm opacity-80">Take turns, each on your own clock</div>
+            <div className="text-xs mt-2 opacity-60">Max 2 players</div>
+          </div>
+        </motion.button>
       </div>
     </div>
   )
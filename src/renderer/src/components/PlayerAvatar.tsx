@@ -1,30 +1,30 @@
 import { motion } from 'framer-motion'
-import type { Player } from '../stores/gameStore'
+import { DEFAULT_ROOM_SETTINGS } from '../stores/gameStore'
+import type { GameMode, Player } from '../stores/gameStore'
+import { GAME_MODES, isHeadToHead } from '../lib/modes'
+import { getRatingKey } from '../lib/rating'
+import type { RatingTable } from '../lib/rating'
+import { RatingBadge } from './RatingBadge'
+import { getDefaultAvatar } from '../lib/profile'
 
 interface PlayerAvatarProps {
   player: Player
   isCurrentPlayer?: boolean
   size?: 'sm' | 'md' | 'lg'
   showStatus?: boolean
+  maxAttempts?: number
+  // Shown under the name when the player has been rated on this machine
+  rating?: number | null
   onClick?: () => void
 }
 
-const avatarEmojis = [
-  '😀', '😃', '😄', '😁', '😆', '😅', '😂', '🤣', '😊', '😇',
-  '🙂', '🙃', '😉', '😌', '😍', '🥰', '😘', '😗', '😙', '😚',
-  '😋', '😛', '😝', '😜', '🤪', '🤨', '🧐', '🤓', '😎', '🤩',
-  '🥳', '😏', '😒', '😞', '😔', '😟', '😕', '🙁', '☹️', '😣',
-  '😖', '😫', '😩', '🥺', '😢', '😭', '😤', '😠', '😡', '🤬',
-  '🤯', '😳', '🥵', '🥶', '😱', '😨', '😰', '😥', '😓', '🤗',
-  '🤔', '🤭', '🤫', '🤥', '😶', '😐', '😑', '😯', '😦', '😧',
-  '😮', '😲', '🥱', '😴', '🤤', '😪', '😵', '🤐', '🥴', '🤢'
-]
-
 export function PlayerAvatar({ 
   player, 
   isCurrentPlayer = false, 
   size = 'md', 
   showStatus = true,
+  maxAttempts = DEFAULT_ROOM_SETTINGS.maxAttempts,
+  rating = null,
   onClick 
 }: PlayerAvatarProps) {
   // Safety check for incomplete player data
@@ -33,10 +33,8 @@ export function PlayerAvatar({
     return null
   }
 
-  // Generate consistent emoji based on player ID or username as fallback
-  const identifier = player.id || player.username || 'unknown'
-  const emojiIndex = identifier.charCodeAt(0) % avatarEmojis.length
-  const avatarEmoji = avatarEmojis[emojiIndex]
+  // The player's chosen avatar, or a consistent one from their ID or username
+  const avatarEmoji = player.avatar || getDefaultAvatar(player.id || player.username || 'unknown')
 
   const sizeClasses = {
     sm: 'w-8 h-8 text-sm',
@@ -94,6 +92,7 @@ export function PlayerAvatar({
             }`}>
               {player.username}
             </div>
+            {rating !== null && <RatingBadge rating={rating} />}
             
             {/* Status Text */}
             {showStatus && (
@@ -108,7 +107,7 @@ export function PlayerAvatar({
           {/* Score/Attempts */}
           {player.guesses && (
             <div className="text-xs text-gray-500 text-center mt-1">
-              {player.guesses.length}/6
+              {player.guesses.length}/{maxAttempts}
             </div>
           )}
         </>
@@ -121,11 +120,20 @@ export function PlayerAvatar({
 interface PlayerListProps {
   players: Player[]
   currentPlayer: string | null
-  mode: 'duel' | 'battleRoyale'
+  mode: GameMode
   showAvatars?: boolean
+  maxAttempts?: number
+  ratings?: RatingTable
 }
 
-export function PlayerList({ players, currentPlayer, mode, showAvatars: _showAvatars = true }: PlayerListProps) {
+export function PlayerList({
+  players,
+  currentPlayer,
+  mode,
+  showAvatars: _showAvatars = true,
+  maxAttempts = DEFAULT_ROOM_SETTINGS.maxAttempts,
+  ratings = {}
+}: PlayerListProps) {
   const sortedPlayers = [...players].sort((a, b) => {
     if (a.won && !b.won) return -1
     if (!a.won && b.won) return 1
@@ -137,7 +145,7 @@ export function PlayerList({ players, currentPlayer, mode, showAvatars: _showAva
   return (
     <div className="bg-white rounded-lg shadow-md p-6 mb-6">
       <h3 className="text-xl font-bold mb-4 text-center">
-        {mode === 'duel' ? '⚔️ Players' : '🏆 Survivors'}
+        {isHeadToHead(mode) ? `${GAME_MODES[mode].icon} Players` : '🏆 Survivors'}
       </h3>
       
       <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
@@ -148,6 +156,8 @@ export function PlayerList({ players, currentPlayer, mode, showAvatars: _showAva
             isCurrentPlayer={player.id === currentPlayer}
             size="md"
             showStatus={true}
+            maxAttempts={maxAttempts}
+            rating={ratings[getRatingKey(player) ?? '']?.rating ?? null}
           />
         ))}
       </div>
@@ -0,0 +1,20 @@
+import { formatRatingChange } from '../lib/rating'
+
+interface RatingBadgeProps {
+  rating: number
+  // Change from the last rated game, if any
+  change?: number
+}
+
+export function RatingBadge({ rating, change }: RatingBadgeProps) {
+  return (
+    <div className="text-sm font-semibold text-indigo-600">
+      ★ {rating}
+      {change !== undefined && (
+        <span className={`ml-1 ${change >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+          ({formatRatingChange(change)})
+        </span>
+      )}
+    </div>
+  )
+}
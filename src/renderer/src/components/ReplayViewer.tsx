@@ -0,0 +1,171 @@
+import { useEffect, useState } from 'react'
+import { GameBoard } from './GameBoard'
+import { getReplayDuration, getReplayFrame, loadReplayFile, saveReplayFile } from '../lib/replay'
+import type { Replay } from '../lib/replay'
+import { formatElapsed } from '../lib/share'
+
+interface ReplayViewerProps {
+  replay: Replay
+}
+
+const PLAYBACK_SPEEDS = [1, 4, 16]
+const TICK_MS = 100
+
+export function ReplayViewer({ replay: recordedReplay }: ReplayViewerProps) {
+  const [replay, setReplay] = useState(recordedReplay)
+  const [time, setTime] = useState(0)
+  const [isPlaying, setIsPlaying] = useState(false)
+  const [speed, setSpeed] = useState(PLAYBACK_SPEEDS[1])
+  const [fileMessage, setFileMessage] = useState('')
+
+  const duration = getReplayDuration(replay)
+  const frame = getReplayFrame(replay, time)
+
+  useEffect(() => {
+    setReplay(recordedReplay)
+    setTime(0)
+    setIsPlaying(false)
+  }, [recordedReplay])
+
+  useEffect(() => {
+    if (!isPlaying) return
+
+    const interval = setInterval(() => {
+      setTime((prev) => {
+        const next = prev + TICK_MS * speed
+        if (next >= duration) {
+          setIsPlaying(false)
+          return duration
+        }
+        return next
+      })
+    }, TICK_MS)
+
+    return () => clearInterval(interval)
+  }, [isPlaying, speed, duration])
+
+  const handlePlayPause = () => {
+    // Pressing play at the end starts over
+    if (!isPlaying && time >= duration) setTime(0)
+    setIsPlaying(!isPlaying)
+  }
+
+  const handleSave = async () => {
+    try {
+      const saved = await saveReplayFile(replay)
+      if (saved) setFileMessage('Replay saved')
+    } catch (error) {
+      setFileMessage(error instanceof Error ? error.message : 'Failed to save replay')
+    }
+  }
+
+  const handleLoad = async () => {
+    try {
+      const loaded = await loadReplayFile()
+      if (!loaded) return
+      setReplay(loaded)
+      setTime(0)
+      setIsPlaying(false)
+      setFileMessage(`Loaded replay of room ${loaded.roomCode}`)
+    } catch (error) {
+      setFileMessage(error instanceof Error ? error.message : 'Failed to load replay')
+    }
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-6 mb-8">
+      <h3 className="text-2xl font-bold mb-2 text-center">🎬 Match Replay</h3>
+      <p className="text-sm text-gray-500 text-center mb-6">
+        Room {replay.roomCode} • {replay.wordLength} letters • {replay.maxAttempts} attempts
+      </p>
+
+      {/* Controls */}
+      <div className="flex items-center gap-4 mb-2">
+        <button
+          onClick={handlePlayPause}
+          disabled={duration === 0}
+          className="w-24 py-2 bg-[#1a1a1a] text-white rounded-lg font-semibold hover:bg-[#333] disabled:bg-gray-400 transition-colors"
+        >
+          {isPlaying ? '⏸ Pause' : '▶ Play'}
+        </button>
+        <input
+          type="range"
+          min={0}
+          max={duration}
+          step={TICK_MS}
+          value={time}
+          onChange={(e) => setTime(Number(e.target.value))}
+          className="flex-1"
+        />
+        <span className="text-sm font-mono text-gray-600 w-24 text-right">
+          {formatElapsed(time)} / {formatElapsed(duration)}
+        </span>
+      </div>
+
+      <div className="flex justify-center gap-2 mb-6">
+        {PLAYBACK_SPEEDS.map((option) => (
+          <button
+            key={option}
+            onClick={() => setSpeed(option)}
+            className={`px-3 py-1 rounded-full text-sm font-semibold transition-colors ${
+              speed === option
+                ? 'bg-[#1a1a1a] text-white'
+                : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+            }`}
+          >
+            {option}×
+          </button>
+        ))}
+      </div>
+
+      {/* Status */}
+      <p className="text-center font-semibold mb-4">
+        {frame.finished
+          ? frame.winner
+            ? `🏆 ${frame.winner} wins${frame.solution ? ` • the word was ${frame.solution}` : ''}`
+            : `Game over${frame.solution ? ` • the word was ${frame.solution}` : ''}`
+          : frame.started
+            ? '🎮 In progress'
+            : '⏳ Waiting for players'}
+      </p>
+
+      {/* Boards */}
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-6">
+        {frame.players.map((username) => (
+          <div
+            key={username}
+            className={`p-3 rounded-lg border-2 ${
+              frame.eliminated.includes(username) ? 'border-red-300 opacity-60' : 'border-gray-200'
+            }`}
+          >
+            <div className="text-center font-semibold mb-3">
+              {username}
+              {frame.eliminated.includes(username) && (
+                <span className="ml-2 text-red-600 text-sm">Eliminated</span>
+              )}
+              {frame.winner === username && <span className="ml-2">👑</span>}
+            </div>
+            <GameBoard board={frame.boards[username]} compact />
+          </div>
+        ))}
+      </div>
+
+      {/* Files */}
+      <div className="flex justify-center gap-4 mt-6">
+        <button
+          onClick={handleSave}
+          className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg font-semibold hover:bg-gray-50 transition-colors"
+        >
+          💾 Save Replay
+        </button>
+        <button
+          onClick={handleLoad}
+          className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg font-semibold hover:bg-gray-50 transition-colors"
+        >
+          📂 Load Replay
+        </button>
+      </div>
+      {fileMessage && <p className="text-sm text-gray-500 text-center mt-2">{fileMessage}</p>}
+    </div>
+  )
+}
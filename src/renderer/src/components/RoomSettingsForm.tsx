@@ -0,0 +1,254 @@
+import type { Room, RoomSettings } from '../stores/gameStore'
+import { SUPPORTED_WORD_LENGTHS } from '../lib/dictionary'
+import { ELIMINATION_RULES } from '../lib/rounds'
+import type { EliminationRule } from '../lib/rounds'
+import { SERIES_LENGTH_OPTIONS, getWinsNeeded } from '../lib/series'
+import { CLOCK_INCREMENT_OPTIONS, CLOCK_TIME_OPTIONS } from '../lib/chessClock'
+
+const ATTEMPT_OPTIONS = [4, 5, 6, 7, 8]
+// Seconds
+const TIME_LIMIT_OPTIONS = [60, 120, 180, 300, 600]
+
+interface RoomSettingsFormProps {
+  settings: RoomSettings
+  onSettingsChange: (settings: RoomSettings) => void
+  disabled?: boolean
+  // Mode-specific settings are only shown for the matching mode
+  mode?: Room['mode']
+}
+
+export function RoomSettingsForm({
+  settings,
+  onSettingsChange,
+  disabled = false,
+  mode
+}: RoomSettingsFormProps) {
+  const updateSetting = <K extends keyof RoomSettings>(key: K, value: RoomSettings[K]): void => {
+    onSettingsChange({ ...settings, [key]: value })
+  }
+
+  return (
+    <div className="mb-4 space-y-3 text-left">
+      {/* Word Length */}
+      <div className="p-3 rounded-lg border border-gray-200">
+        <div className="text-sm font-semibold mb-2">🔤 Word Length</div>
+        <div className="flex gap-2">
+          {SUPPORTED_WORD_LENGTHS.map((length) => (
+            <button
+              key={length}
+              type="button"
+              onClick={() => updateSetting('wordLength', length)}
+              disabled={disabled}
+              className={`flex-1 py-2 rounded-lg border-2 text-sm font-semibold transition-colors ${
+                settings.wordLength === length
+                  ? 'border-[#1a1a1a] bg-[#1a1a1a] text-white'
+                  : 'border-gray-300 bg-white text-gray-700 hover:border-gray-400'
+              } ${disabled ? 'opacity-50 cursor-not-allowed' : ''}`}
+            >
+              {length}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {/* Max Attempts */}
+      <div className="p-3 rounded-lg border border-gray-200">
+        <div className="text-sm font-semibold mb-2">🎯 Attempts</div>
+        <div className="flex gap-2">
+          {ATTEMPT_OPTIONS.map((attempts) => (
+            <button
+              key={attempts}
+              type="button"
+              onClick={() => updateSetting('maxAttempts', attempts)}
+              disabled={disabled}
+              className={`flex-1 py-2 rounded-lg border-2 text-sm font-semibold transition-colors ${
+                settings.maxAttempts === attempts
+                  ? 'border-[#1a1a1a] bg-[#1a1a1a] text-white'
+                  : 'border-gray-300 bg-white text-gray-700 hover:border-gray-400'
+              } ${disabled ? 'opacity-50 cursor-not-allowed' : ''}`}
+            >
+              {attempts}
+            </button>
+          ))}
+        </div>
+        <div className="text-xs text-gray-600 mt-2">
+          {settings.maxAttempts <= 4
+            ? 'Sudden death'
+            : settings.maxAttempts >= 8
+              ? 'Casual'
+              : 'Classic'}
+        </div>
+      </div>
+
+      {/* Time Limit */}
+      {mode && mode !== 'chessClock' && (
+        <div className="p-3 rounded-lg border border-gray-200">
+          <div className="text-sm font-semibold mb-2">⏱️ Time Limit</div>
+          <div className="flex gap-2">
+            {TIME_LIMIT_OPTIONS.map((seconds) => (
+              <button
+                key={seconds}
+                type="button"
+                onClick={() => updateSetting('timeLimit', seconds)}
+                disabled={disabled}
+                className={`flex-1 py-2 rounded-lg border-2 text-sm font-semibold transition-colors ${
+                  settings.timeLimit === seconds
+                    ? 'border-[#1a1a1a] bg-[#1a1a1a] text-white'
+                    : 'border-gray-300 bg-white text-gray-700 hover:border-gray-400'
+                } ${disabled ? 'opacity-50 cursor-not-allowed' : ''}`}
+              >
+                {seconds / 60}m
+              </button>
+            ))}
+          </div>
+          <div className="text-xs text-gray-600 mt-2">
+            Unused attempts are forfeited when the clock runs out
+          </div>
+        </div>
+      )}
+
+      {/* Chess Clock */}
+      {mode === 'chessClock' && (
+        <div className="p-3 rounded-lg border border-gray-200">
+          <div className="text-sm font-semibold mb-2">♟️ Time Bank</div>
+          <div className="flex gap-2">
+            {CLOCK_TIME_OPTIONS.map((seconds) => (
+              <button
+                key={seconds}
+                type="button"
+                onClick={() => updateSetting('clockTime', seconds)}
+                disabled={disabled}
+                className={`flex-1 py-2 rounded-lg border-2 text-sm font-semibold transition-colors ${
+                  settings.clockTime === seconds
+                    ? 'border-[#1a1a1a] bg-[#1a1a1a] text-white'
+                    : 'border-gray-300 bg-white text-gray-700 hover:border-gray-400'
+                } ${disabled ? 'opacity-50 cursor-not-allowed' : ''}`}
+              >
+                {seconds / 60}m
+              </button>
+            ))}
+          </div>
+          <div className="text-sm font-semibold mt-3 mb-2">➕ Increment per Guess</div>
+          <div className="flex gap-2">
+            {CLOCK_INCREMENT_OPTIONS.map((seconds) => (
+              <button
+                key={seconds}
+                type="button"
+                onClick={() => updateSetting('clockIncrement', seconds)}
+                disabled={disabled}
+                className={`flex-1 py-2 rounded-lg border-2 text-sm font-semibold transition-colors ${
+                  settings.clockIncrement === seconds
+                    ? 'border-[#1a1a1a] bg-[#1a1a1a] text-white'
+                    : 'border-gray-300 bg-white text-gray-700 hover:border-gray-400'
+                } ${disabled ? 'opacity-50 cursor-not-allowed' : ''}`}
+              >
+                {seconds === 0 ? 'None' : `+${seconds}s`}
+              </button>
+            ))}
+          </div>
+          <div className="text-xs text-gray-600 mt-2">
+            Your clock only runs on your turn. Run out of time and you lose.
+          </div>
+        </div>
+      )}
+
+      {/* Series Length */}
+      {mode === 'duel' && (
+        <div className="p-3 rounded-lg border border-gray-200">
+          <div className="text-sm font-semibold mb-2">🏅 Series</div>
+          <div className="flex gap-2">
+            {SERIES_LENGTH_OPTIONS.map((length) => (
+              <button
+                key={length}
+                type="button"
+                onClick={() => updateSetting('seriesLength', length)}
+                disabled={disabled}
+                className={`flex-1 py-2 rounded-lg border-2 text-sm font-semibold transition-colors ${
+                  settings.seriesLength === length
+                    ? 'border-[#1a1a1a] bg-[#1a1a1a] text-white'
+                    : 'border-gray-300 bg-white text-gray-700 hover:border-gray-400'
+                } ${disabled ? 'opacity-50 cursor-not-allowed' : ''}`}
+              >
+                {length === 1 ? 'Single' : `Bo${length}`}
+              </button>
+            ))}
+          </div>
+          <div className="text-xs text-gray-600 mt-2">
+            {settings.seriesLength === 1
+              ? 'One game decides the duel'
+              : `First to ${getWinsNeeded(settings.seriesLength)} wins takes the series`}
+          </div>
+        </div>
+      )}
+
+      {/* Elimination Rule */}
+      {mode === 'battleRoyale' && (
+        <div className="p-3 rounded-lg border border-gray-200">
+          <div className="text-sm font-semibold mb-2">☠️ Elimination Rule</div>
+          <div className="flex gap-2">
+            {(Object.keys(ELIMINATION_RULES) as EliminationRule[]).map((rule) => (
+              <button
+                key={rule}
+                type="button"
+                onClick={() => updateSetting('eliminationRule', rule)}
+                disabled={disabled}
+                className={`flex-1 py-2 rounded-lg border-2 text-xs font-semibold transition-colors ${
+                  settings.eliminationRule === rule
+                    ? 'border-[#1a1a1a] bg-[#1a1a1a] text-white'
+                    : 'border-gray-300 bg-white text-gray-700 hover:border-gray-400'
+                } ${disabled ? 'opacity-50 cursor-not-allowed' : ''}`}
+              >
+                {ELIMINATION_RULES[rule].label}
+              </button>
+            ))}
+          </div>
+          <div className="text-xs text-gray-600 mt-2">
+            {ELIMINATION_RULES[settings.eliminationRule].description}
+          </div>
+        </div>
+      )}
+
+      {/* Hard Mode */}
+      <label
+        className={`flex items-start gap-3 p-3 rounded-lg border border-gray-200 ${
+          disabled ? 'opacity-50 cursor-not-allowed' : 'cursor-pointer hover:bg-gray-50'
+        }`}
+      >
+        <input
+          type="checkbox"
+          checked={settings.hardMode}
+          onChange={(e) => updateSetting('hardMode', e.target.checked)}
+          disabled={disabled}
+          className="mt-1"
+        />
+        <div>
+          <div className="text-sm font-semibold">🔥 Hard Mode</div>
+          <div className="text-xs text-gray-600">
+            Revealed hints must be used in every following guess
+          </div>
+        </div>
+      </label>
+
+      {/* Strict Guesses */}
+      <label
+        className={`flex items-start gap-3 p-3 rounded-lg border border-gray-200 ${
+          disabled ? 'opacity-50 cursor-not-allowed' : 'cursor-pointer hover:bg-gray-50'
+        }`}
+      >
+        <input
+          type="checkbox"
+          checked={settings.strictGuesses}
+          onChange={(e) => updateSetting('strictGuesses', e.target.checked)}
+          disabled={disabled}
+          className="mt-1"
+        />
+        <div>
+          <div className="text-sm font-semibold">📖 Answer List Only</div>
+          <div className="text-xs text-gray-600">
+            Guesses must be common answer words, not obscure dictionary entries
+          </div>
+        </div>
+      </label>
+    </div>
+  )
+}
@@ -0,0 +1,108 @@
+import type { ReactNode } from 'react'
+import { motion } from 'framer-motion'
+import { CountdownTimer } from './GameTimer'
+import { getRemainingPlayers, isFinalRound } from '../lib/rounds'
+import type { RoundStanding } from '../lib/rounds'
+import { formatElapsed } from '../lib/share'
+
+interface RoundIntermissionProps {
+  roundNumber: number
+  standings: RoundStanding[]
+  seconds: number
+  isHost: boolean
+  onContinue: () => void
+  // Label for the countdown, e.g. "Next round in"
+  continueLabel?: string
+  title?: string
+  // Extra content above the standings, e.g. a series score
+  children?: ReactNode
+}
+
+export function RoundIntermission({
+  roundNumber,
+  standings,
+  seconds,
+  isHost,
+  onContinue,
+  continueLabel,
+  title,
+  children
+}: RoundIntermissionProps) {
+  const isFinal = isFinalRound(standings)
+  const [champion] = getRemainingPlayers(standings)
+
+  const getRankColor = (rank: number) => {
+    if (rank === 1) return 'bg-yellow-500'
+    if (rank === 2) return 'bg-gray-400'
+    if (rank === 3) return 'bg-amber-600'
+    return 'bg-gray-300'
+  }
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, scale: 0.95 }}
+      animate={{ opacity: 1, scale: 1 }}
+      className="max-w-xl mx-auto space-y-6"
+    >
+      <div className="bg-white rounded-lg shadow-md p-6">
+        <h2 className="text-3xl font-bold text-center mb-1">
+          {title ?? `Round ${roundNumber} Complete`}
+        </h2>
+        <p className="text-center text-gray-600 mb-6">
+          {isFinal && champion
+            ? `🏆 ${champion.username} is the last one standing!`
+            : 'Standings for this round'}
+        </p>
+
+        {children}
+
+        <div className="space-y-2">
+          {standings.map((standing, index) => (
+            <motion.div
+              key={standing.playerId}
+              initial={{ opacity: 0, x: -20 }}
+              animate={{ opacity: 1, x: 0 }}
+              transition={{ delay: index * 0.08 }}
+              className={`flex items-center justify-between p-3 rounded-lg border-2 ${
+                standing.eliminated ? 'border-red-200 bg-red-50' : 'border-gray-200 bg-gray-50'
+              }`}
+            >
+              <div className="flex items-center gap-3">
+                <div
+                  className={`w-8 h-8 rounded-full flex items-center justify-center text-white font-bold text-sm ${getRankColor(standing.rank)}`}
+                >
+                  {standing.rank}
+                </div>
+                <div>
+                  <div className="font-semibold">{standing.username}</div>
+                  <div className="text-xs text-gray-500">
+                    {standing.solved
+                      ? `Solved in ${standing.attempts} • ${standing.timeMs !== null ? formatElapsed(standing.timeMs) : '—'}`
+                      : 'Did not solve'}
+                  </div>
+                </div>
+              </div>
+              <div className="text-right">
+                <div className="font-bold">{standing.score}</div>
+                {standing.eliminated && (
+                  <div className="text-xs font-semibold text-red-600">☠️ Eliminated</div>
+                )}
+              </div>
+            </motion.div>
+          ))}
+        </div>
+      </div>
+
+      <CountdownTimer
+        seconds={seconds}
+        onComplete={onContinue}
+        label={
+          continueLabel ?? (isFinal ? 'Final results in' : `Round ${roundNumber + 1} starts in`)
+        }
+      />
+      {!isHost && (
+        <p className="text-center text-sm text-gray-500">Waiting for the host to continue...</p>
+      )}
+    </motion.div>
+  )
+}
@@ -1,26 +1,43 @@
 import { motion } from 'framer-motion'
-import type { Player } from '../stores/gameStore'
+import { DEFAULT_ROOM_SETTINGS } from '../stores/gameStore'
+import type { GameMode, GameTile, Player } from '../stores/gameStore'
+import { GAME_MODES, isHeadToHead } from '../lib/modes'
+import { getRevealedRows } from '../lib/utils'
 
 interface ScoreboardProps {
   players: Player[]
-  mode: 'duel' | 'battleRoyale'
+  mode: GameMode
   winner: string | null
   currentPlayer: string | null
+  maxAttempts?: number
+  // Boards by player id; attempts are the rows each player has played
+  boards?: Record<string, GameTile[][]>
 }
 
-export function Scoreboard({ players, mode, winner, currentPlayer }: ScoreboardProps) {
+export function Scoreboard({
+  players,
+  mode,
+  winner,
+  currentPlayer,
+  maxAttempts = DEFAULT_ROOM_SETTINGS.maxAttempts,
+  boards = {}
+}: ScoreboardProps) {
+  const getAttempts = (player: Player) => getRevealedRows(boards[player.id] ?? []).length
+
   const sortedPlayers = [...players].sort((a, b) => {
     if (a.won && !b.won) return -1
     if (!a.won && b.won) return 1
     if (a.eliminated && !b.eliminated) return 1
     if (!a.eliminated && b.eliminated) return -1
-    return a.score - b.score
+    return b.score - a.score
   })
 
-  if (mode === 'duel') {
+  if (isHeadToHead(mode)) {
     return (
       <div className="bg-white rounded-lg shadow-md p-6 mb-6">
-        <h3 className="text-xl font-bold mb-4 text-center">⚔️ Duel Scoreboard</h3>
+        <h3 className="text-xl font-bold mb-4 text-center">
+          {GAME_MODES[mode].icon} {GAME_MODES[mode].label} Scoreboard
+        </h3>
         <div className="space-y-3">
           {sortedPlayers.map((player, index) => (
             <motion.div
@@ -46,26 +63,29 @@ export function Scoreboard({ players, mode, winner, currentPlayer }: ScoreboardP
                 )}
               </div>
               <div className="text-right">
+                <div className="font-bold">{player.score} pts</div>
                 {player.won ? (
                   <span className="text-green-600 font-bold">Winner!</span>
                 ) : (
                   <span className="text-gray-600">
-                    {player.guesses?.length || 0}/6 attempts
+                    {getAttempts(player)}/{maxAttempts} attempts
                   </span>
                 )}
               </div>
             </motion.div>
           ))}
         </div>
-        {winner === null && players.every(p => p.guesses && p.guesses.length >= 6) && (
-          <motion.div
-            initial={{ opacity: 0, scale: 0.9 }}
-            animate={{ opacity: 1, scale: 1 }}
-            className="mt-4 p-3 bg-yellow-100 border border-yellow-300 text-yellow-800 rounded-lg text-center font-semibold"
-          >
-            🤝 It's a Draw! Both players failed to guess the word.
-          </motion.div>
-        )}
+        {winner === null &&
+          players.length > 0 &&
+          players.every((p) => getAttempts(p) >= maxAttempts) && (
+            <motion.div
+              initial={{ opacity: 0, scale: 0.9 }}
+              animate={{ opacity: 1, scale: 1 }}
+              className="mt-4 p-3 bg-yellow-100 border border-yellow-300 text-yellow-800 rounded-lg text-center font-semibold"
+            >
+              🤝 It's a Draw! Both players failed to guess the word.
+            </motion.div>
+          )}
       </div>
     )
   }
@@ -103,13 +123,14 @@ export function Scoreboard({ players, mode, winner, currentPlayer }: ScoreboardP
               )}
             </div>
             <div className="text-right">
+              <div className="font-bold">{player.score} pts</div>
               {player.won ? (
                 <span className="text-yellow-600 font-bold">Last Standing!</span>
               ) : player.eliminated ? (
                 <span className="text-red-600 font-semibold">Eliminated</span>
               ) : (
                 <span className="text-gray-600">
-                  {player.guesses?.length || 0}/6 attempts
+                  {getAttempts(player)}/{maxAttempts} attempts
                 </span>
               )}
             </div>
@@ -0,0 +1,62 @@
+import { motion } from 'framer-motion'
+import type { Room } from '../stores/gameStore'
+import { formatSeriesScore, getSeriesLength, getSeriesWinner, getWinsNeeded } from '../lib/series'
+
+interface SeriesSummaryProps {
+  room: Room
+}
+
+export function SeriesSummary({ room }: SeriesSummaryProps) {
+  const seriesLength = getSeriesLength(room)
+  const winsNeeded = getWinsNeeded(seriesLength)
+  const champion = getSeriesWinner(room)
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-6 mb-8 text-center">
+      <h3 className="text-2xl font-bold mb-1">🏅 Series Summary</h3>
+      <p className="text-sm text-gray-500 mb-4">
+        Best of {seriesLength} • {room.roundNumber ?? 1} game
+        {(room.roundNumber ?? 1) !== 1 ? 's' : ''} played
+      </p>
+
+      <p className="text-xl font-semibold mb-6">
+        {champion ? (
+          <span className="text-green-600">
+            {champion.username} wins the series {formatSeriesScore(room)}
+          </span>
+        ) : (
+          <span className="text-gray-600">Series ended at {formatSeriesScore(room)}</span>
+        )}
+      </p>
+
+      <div className="space-y-3">
+        {room.players.map((player, index) => {
+          const wins = room.seriesScore?.[player.id] ?? 0
+          return (
+            <motion.div
+              key={player.id}
+              initial={{ opacity: 0, x: -20 }}
+              animate={{ opacity: 1, x: 0 }}
+              transition={{ delay: index * 0.1 }}
+              className={`flex items-center justify-between p-3 rounded-lg border-2 ${
+                champion?.id === player.id
+                  ? 'border-green-500 bg-green-50'
+                  : 'border-gray-200 bg-gray-50'
+              }`}
+            >
+              <span className="font-semibold">{player.username}</span>
+              <div className="flex gap-1">
+                {Array.from({ length: winsNeeded }, (_, i) => (
+                  <div
+                    key={i}
+                    className={`w-4 h-4 rounded-full ${i < wins ? 'bg-green-500' : 'bg-gray-300'}`}
+                  />
+                ))}
+              </div>
+            </motion.div>
+          )
+        })}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,70 @@
+import { useState } from 'react'
+import { useGameStore, getRoomMaxAttempts } from '../stores/gameStore'
+import { buildShareText, type ShareTheme } from '../lib/share'
+
+export function ShareButton() {
+  const { currentRoom, gameBoard, mode, gameStartedAt, gameEndedAt } = useGameStore()
+  const [theme, setTheme] = useState<ShareTheme>('standard')
+  const [copyState, setCopyState] = useState<'idle' | 'copied' | 'failed'>('idle')
+
+  if (!currentRoom) return null
+
+  // Fall back to the server's start time if this client joined mid-game
+  const startedAt =
+    gameStartedAt ??
+    (currentRoom.gameStartTime ? new Date(currentRoom.gameStartTime).getTime() : null)
+  const elapsedMs = startedAt !== null ? (gameEndedAt ?? Date.now()) - startedAt : null
+
+  const shareText = buildShareText({
+    board: gameBoard,
+    mode,
+    maxAttempts: getRoomMaxAttempts(currentRoom),
+    hardMode: currentRoom.hardMode,
+    elapsedMs,
+    theme
+  })
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(shareText)
+      setCopyState('copied')
+    } catch (error) {
+      console.error('Failed to copy result:', error)
+      setCopyState('failed')
+    }
+    setTimeout(() => setCopyState('idle'), 2000)
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-6 mb-8 text-center">
+      <h3 className="text-2xl font-bold mb-4">📤 Share Your Result</h3>
+
+      <pre className="inline-block text-left font-sans text-lg leading-tight bg-gray-50 rounded-lg p-4 mb-4 whitespace-pre-wrap">
+        {shareText}
+      </pre>
+
+      <div className="flex flex-col sm:flex-row items-center justify-center gap-4">
+        <label className="flex items-center gap-2 text-sm text-gray-700 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={theme === 'highContrast'}
+            onChange={(e) => setTheme(e.target.checked ? 'highContrast' : 'standard')}
+            className="w-4 h-4"
+          />
+          High contrast colors
+        </label>
+
+        <button
+          onClick={handleCopy}
+          className="px-6 py-3 bg-[#1a1a1a] text-white rounded-lg font-semibold hover:bg-[#333] transition-colors"
+        >
+          {copyState === 'copied'
+            ? '✅ Copied!'
+            : copyState === 'failed'
+              ? '❌ Copy failed'
+              : '📋 Copy to Clipboard'}
+        </button>
+      </div>
+    </div>
+  )
+}
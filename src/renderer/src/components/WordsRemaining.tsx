@@ -0,0 +1,67 @@
+import { motion } from 'framer-motion'
+import type { GameTile } from '../stores/gameStore'
+import { isSupportedWordLength } from '../lib/dictionary'
+import { getRemainingAfterEachGuess, getStartingCandidates } from '../lib/solver'
+import { getRevealedRows } from '../lib/utils'
+
+interface WordsRemainingProps {
+  board: GameTile[][]
+  solution: string
+}
+
+export function WordsRemaining({ board, solution }: WordsRemainingProps) {
+  const rows = getRevealedRows(board)
+  if (rows.length === 0 || !isSupportedWordLength(solution.length)) return null
+
+  const counts = getRemainingAfterEachGuess(getStartingCandidates(solution), rows)
+
+  const getTileColor = (status: GameTile['status']) => {
+    switch (status) {
+      case 'correct':
+        return 'bg-green-500 text-white'
+      case 'present':
+        return 'bg-yellow-500 text-white'
+      default:
+        return 'bg-gray-500 text-white'
+    }
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-6 mb-8">
+      <h3 className="text-2xl font-bold mb-2 text-center">🔍 Words Remaining</h3>
+      <p className="text-sm text-gray-500 text-center mb-6">
+        {counts[0].toLocaleString()} possible answers before your first guess
+      </p>
+
+      <div className="space-y-2">
+        {rows.map((row, rowIndex) => (
+          <motion.div
+            key={rowIndex}
+            initial={{ opacity: 0, x: -20 }}
+            animate={{ opacity: 1, x: 0 }}
+            transition={{ delay: 0.2 + rowIndex * 0.1 }}
+            className="flex items-center justify-between"
+          >
+            <div className="flex gap-1">
+              {row.map((tile, colIndex) => (
+                <div
+                  key={colIndex}
+                  className={`w-8 h-8 flex items-center justify-center text-sm font-bold rounded ${getTileColor(tile.status)}`}
+                >
+                  {tile.letter}
+                </div>
+              ))}
+            </div>
+            <div className="text-right text-sm">
+              <span className="font-semibold">{counts[rowIndex + 1].toLocaleString()}</span>
+              <span className="text-gray-500">
+                {' '}
+                word{counts[rowIndex + 1] !== 1 ? 's' : ''} left
+              </span>
+            </div>
+          </motion.div>
+        ))}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,130 @@
+import { useState } from 'react'
+import { createEmptyBoard, getLetterStatuses } from '../stores/gameStore'
+import type { GameTile, LetterStatus } from '../stores/gameStore'
+import { evaluateGuess, getHardModeViolation } from '../lib/utils'
+import { isAnswerWord, isDictionaryWord } from '../lib/dictionary'
+
+export type LocalGameStatus = 'playing' | 'won' | 'lost'
+
+interface LocalGameOptions {
+  solution: string
+  maxAttempts: number
+  hardMode?: boolean
+  strictGuesses?: boolean
+  // Guesses already played, e.g. restored from a saved daily puzzle
+  initialGuesses?: string[]
+}
+
+export interface LocalGame {
+  board: GameTile[][]
+  guesses: string[]
+  currentGuess: string
+  status: LocalGameStatus
+  message: string
+  isShaking: boolean
+  letterStatuses: Record<string, LetterStatus>
+  handleKeyPress: (key: string) => void
+  handlePaste: (text: string) => void
+  clearShake: () => void
+}
+
+function buildBoard(guesses: string[], solution: string, maxAttempts: number): GameTile[][] {
+  const board = createEmptyBoard(maxAttempts, solution.length)
+  guesses.forEach((guess, row) => {
+    const evaluation = evaluateGuess(guess, solution)
+    board[row] = guess.split('').map((letter, index) => ({ letter, status: evaluation[index] }))
+  })
+  return board
+}
+
+export function getLocalGameStatus(
+  guesses: string[],
+  solution: string,
+  maxAttempts: number
+): LocalGameStatus {
+  if (guesses.includes(solution)) return 'won'
+  if (guesses.length >= maxAttempts) return 'lost'
+  return 'playing'
+}
+
+// Plays a whole game in the renderer with the same engine as the server-backed modes
+export function useLocalGame({
+  solution,
+  maxAttempts,
+  hardMode = false,
+  strictGuesses = false,
+  initialGuesses = []
+}: LocalGameOptions): LocalGame {
+  const wordLength = solution.length
+  const [guesses, setGuesses] = useState<string[]>(initialGuesses)
+  const [currentGuess, setCurrentGuess] = useState('')
+  const [message, setMessage] = useState('')
+  const [isShaking, setIsShaking] = useState(false)
+
+  const board = buildBoard(guesses, solution, maxAttempts)
+  const status = getLocalGameStatus(guesses, solution, maxAttempts)
+
+  const reject = (reason: string): void => {
+    setMessage(reason)
+    setIsShaking(true)
+  }
+
+  const submitGuess = (): void => {
+    if (currentGuess.length !== wordLength) {
+      reject('Not enough letters')
+      return
+    }
+
+    const isKnownWord = strictGuesses ? isAnswerWord(currentGuess) : isDictionaryWord(currentGuess)
+    if (!isKnownWord) {
+      reject('Not in word list')
+      return
+    }
+
+    if (hardMode) {
+      const violation = getHardModeViolation(currentGuess, board)
+      if (violation) {
+        reject(violation)
+        return
+      }
+    }
+
+    setGuesses([...guesses, currentGuess])
+    setCurrentGuess('')
+    setMessage('')
+  }
+
+  const handleKeyPress = (key: string): void => {
+    if (status !== 'playing') return
+
+    if (key === 'ENTER') {
+      submitGuess()
+    } else if (key === 'BACKSPACE') {
+      setCurrentGuess(currentGuess.slice(0, -1))
+    } else if (key.length === 1 && currentGuess.length < wordLength) {
+      setCurrentGuess(currentGuess + key.toUpperCase())
+    }
+  }
+
+  const handlePaste = (text: string): void => {
+    if (status !== 'playing') return
+
+    const word = text.trim().toUpperCase()
+    if (word.length === wordLength && /^[A-Z]+$/.test(word)) {
+      setCurrentGuess(word)
+    }
+  }
+
+  return {
+    board,
+    guesses,
+    currentGuess,
+    status,
+    message,
+    isShaking,
+    letterStatuses: getLetterStatuses(board),
+    handleKeyPress,
+    handlePaste,
+    clearShake: () => setIsShaking(false)
+  }
+}
@@ -0,0 +1,64 @@
+import { useEffect, useRef } from 'react'
+
+interface PhysicalKeyboardOptions {
+  enabled: boolean
+  // Receives the same key names as the on-screen Keyboard: 'A'-'Z', 'ENTER', 'BACKSPACE'
+  onKeyPress: (key: string) => void
+  onPaste?: (text: string) => void
+}
+
+// Keys typed into form fields belong to those fields, not the game
+function isTextInputTarget(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) return false
+  return target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName)
+}
+
+export function usePhysicalKeyboard({
+  enabled,
+  onKeyPress,
+  onPaste
+}: PhysicalKeyboardOptions): void {
+  // Keep the latest handlers without re-attaching window listeners on every render
+  const handlersRef = useRef({ onKeyPress, onPaste })
+
+  useEffect(() => {
+    handlersRef.current = { onKeyPress, onPaste }
+  }, [onKeyPress, onPaste])
+
+  useEffect(() => {
+    if (!enabled) return
+
+    const handleKeyDown = (event: KeyboardEvent): void => {
+      if (event.ctrlKey || event.metaKey || event.altKey) return
+      if (isTextInputTarget(event.target)) return
+
+      if (event.key === 'Enter') {
+        // Stops a focused on-screen key from also being clicked
+        event.preventDefault()
+        if (!event.repeat) handlersRef.current.onKeyPress('ENTER')
+      } else if (event.key === 'Backspace') {
+        event.preventDefault()
+        handlersRef.current.onKeyPress('BACKSPACE')
+      } else if (/^[a-zA-Z]$/.test(event.key)) {
+        handlersRef.current.onKeyPress(event.key.toUpperCase())
+      }
+    }
+
+    const handlePaste = (event: ClipboardEvent): void => {
+      if (isTextInputTarget(event.target)) return
+      const text = event.clipboardData?.getData('text') ?? ''
+      if (text && handlersRef.current.onPaste) {
+        event.preventDefault()
+        handlersRef.current.onPaste(text)
+      }
+    }
+
+    window.addEventListener('keydown', handleKeyDown)
+    window.addEventListener('paste', handlePaste)
+
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown)
+      window.removeEventListener('paste', handlePaste)
+    }
+  }, [enabled])
+}
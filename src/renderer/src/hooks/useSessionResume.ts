@@ -0,0 +1,75 @@
+import { useEffect, useRef } from 'react'
+import { useNavigate, useRouterState } from '@tanstack/react-router'
+import { useGameStore } from '../stores/gameStore'
+import { socketService } from '../services/socketService'
+import { getCarriedScores, getSessionPath } from '../lib/session'
+
+// Pages that can't be shown without a room
+const ROOM_PATH_PATTERN = /^\/(room\/|game$|results$)/
+
+// Puts the player back in their room after a dropped connection or an app restart. Mounted once
+// at the root so it works from whichever page the player was on.
+export function useSessionResume(): void {
+  const navigate = useNavigate()
+  const pathname = useRouterState({ select: (state) => state.location.pathname })
+  // Read from the socket callbacks without re-subscribing on every navigation
+  const pathnameRef = useRef(pathname)
+
+  useEffect(() => {
+    pathnameRef.current = pathname
+  }, [pathname])
+
+  useEffect(() => {
+    const offRestored = socketService.onSessionRestored((snapshot) => {
+      const session = socketService.getActiveSession()
+      if (!session) return
+
+      useGameStore.getState().restoreSnapshot(snapshot, session)
+      const path = getSessionPath(session, snapshot.status)
+      if (pathnameRef.current !== path) {
+        navigate({ to: path })
+      }
+    })
+
+    const offLost = socketService.onSessionLost((reason) => {
+      console.warn('⚠️ Session ended:', reason)
+      if (!useGameStore.getState().currentRoom && ROOM_PATH_PATTERN.test(pathnameRef.current)) {
+        navigate({ to: '/lobby' })
+      }
+    })
+
+    return () => {
+      offRestored()
+      offLost()
+    }
+  }, [navigate])
+
+  // The clock only changes on a turn switch and the scores once per guess, so saving each change is cheap
+  useEffect(
+    () =>
+      useGameStore.subscribe((state, previous) => {
+        if (
+          state.chessClock === previous.chessClock &&
+          state.playerScores === previous.playerScores &&
+          state.roundScores === previous.roundScores
+        ) {
+          return
+        }
+        socketService.updateSession({
+          chessClock: state.chessClock,
+          scores: getCarriedScores(state.playerScores, state.roundScores)
+        })
+      }),
+    []
+  )
+
+  // Only on startup: a saved session with no room loaded means the app was closed mid-game
+  useEffect(() => {
+    const session = socketService.getSavedSession()
+    if (!session || useGameStore.getState().currentRoom) return
+
+    socketService.rejoinRoom(session).catch((error) => {
+      console.error('Failed to rejoin saved session:', error)
+    })
+  }, [])
+}
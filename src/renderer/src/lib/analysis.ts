@@ -0,0 +1,136 @@
+import { evaluateGuess, getRevealedRows } from './utils'
+import {
+  filterCandidates,
+  getExpectedInformation,
+  getFeedbackPattern,
+  getStartingCandidates,
+  rankGuesses
+} from './solver'
+import type { GameTile, Player } from '../stores/gameStore'
+
+export interface GuessAnalysis {
+  word: string
+  attempt: number
+  pattern: GameTile[]
+  candidatesBefore: number
+  candidatesAfter: number
+  // Expected information (bits) of the guess that was played and of the best one available
+  expectedInformation: number
+  bestGuess: string
+  bestInformation: number
+  // 0-100: how close the guess came to the best possible guess
+  skill: number
+  // 0-100: chance of having been left with more words than this; 50 is an average outcome
+  luck: number
+}
+
+export interface PlayerAnalysis {
+  player: Player
+  guesses: GuessAnalysis[]
+  averageSkill: number
+  averageLuck: number
+}
+
+interface BestGuess {
+  word: string
+  information: number
+}
+
+// The opening position is identical for every player, so it is only ranked once
+const bestGuessCache = new Map<string, BestGuess>()
+
+function findBestGuess(candidates: string[]): BestGuess {
+  const key = candidates.join(',')
+  const cached = bestGuessCache.get(key)
+  if (cached) return cached
+
+  // rankGuesses works on a sample; re-score the winner against every candidate
+  const [top] = rankGuesses(candidates, { limit: 1 })
+  const best = top
+    ? { word: top.word, information: getExpectedInformation(top.word, candidates) }
+    : { word: '', information: 0 }
+  bestGuessCache.set(key, best)
+  return best
+}
+
+// Share of possible answers that would have left more candidates than the real one did
+function getLuck(guess: string, candidates: string[], remaining: number): number {
+  if (candidates.length <= 1) return 50
+
+  const bucketSizes = new Map<string, number>()
+  for (const candidate of candidates) {
+    const pattern = getFeedbackPattern(guess, candidate)
+    bucketSizes.set(pattern, (bucketSizes.get(pattern) || 0) + 1)
+  }
+
+  let worse = 0
+  let same = 0
+  for (const candidate of candidates) {
+    const size = bucketSizes.get(getFeedbackPattern(guess, candidate)) || 0
+    if (size > remaining) worse++
+    else if (size === remaining) same++
+  }
+  return Math.round(((worse + same / 2) / candidates.length) * 100)
+}
+
+function toTiles(word: string, solution: string): GameTile[] {
+  const evaluation = evaluateGuess(word, solution)
+  return word.split('').map((letter, index) => ({ letter, status: evaluation[index] }))
+}
+
+export function analyzeGuesses(words: string[], solution: string): GuessAnalysis[] {
+  let candidates = getStartingCandidates(solution)
+
+  return words.map((rawWord, index) => {
+    const word = rawWord.toUpperCase()
+    const pattern = toTiles(word, solution)
+    const remaining = filterCandidates(candidates, [pattern])
+
+    const expectedInformation = getExpectedInformation(word, candidates)
+    const best = findBestGuess(candidates)
+    const bestInformation = Math.max(best.information, expectedInformation)
+
+    const analysis: GuessAnalysis = {
+      word,
+      attempt: index + 1,
+      pattern,
+      candidatesBefore: candidates.length,
+      candidatesAfter: remaining.length,
+      expectedInformation,
+      bestGuess: best.information > expectedInformation ? best.word : word,
+      bestInformation,
+      skill: bestInformation > 0 ? Math.round((expectedInformation / bestInformation) * 100) : 100,
+      luck: getLuck(word, candidates, remaining.length)
+    }
+
+    candidates = remaining
+    return analysis
+  })
+}
+
+function average(values: number[]): number {
+  return values.length > 0
+    ? Math.round(values.reduce((sum, value) => sum + value, 0) / values.length)
+    : 0
+}
+
+// The client never receives player.guesses after the game starts, so words come from the boards
+export function getBoardWords(board: GameTile[][]): string[] {
+  return getRevealedRows(board).map((row) => row.map((tile) => tile.letter).join(''))
+}
+
+export function analyzePlayer(
+  player: Player,
+  board: GameTile[][],
+  solution: string
+): PlayerAnalysis {
+  const words = getBoardWords(board).filter((word) => word.length === solution.length)
+  const guesses = analyzeGuesses(words, solution)
+
+  return {
+    player,
+    guesses,
+    averageSkill: average(guesses.map((guess) => guess.skill)),
+    averageLuck: average(guesses.map((guess) => guess.luck))
+  }
+}
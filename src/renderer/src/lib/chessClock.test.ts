@@ -0,0 +1,59 @@
+import { describe, expect, it } from '@jest/globals'
+import {
+  createChessClock,
+  getFlaggedPlayer,
+  getNextPlayer,
+  getRemainingMs,
+  switchTurn
+} from './chessClock'
+
+const START = 1_000_000
+
+describe('switchTurn', () => {
+  it('charges the elapsed turn and adds the increment', () => {
+    const clock = createChessClock(['a', 'b'], 60, 'a', START)
+    const next = switchTurn(clock, 'b', 5, START + 10_000)
+
+    expect(next.remainingMs).toEqual({ a: 55_000, b: 60_000 })
+    expect(next.activePlayerId).toBe('b')
+    expect(next.turnStartedAt).toBe(START + 10_000)
+  })
+
+  it('only drains the active player', () => {
+    const clock = switchTurn(createChessClock(['a', 'b'], 60, 'a', START), 'b', 0, START + 10_000)
+    expect(getRemainingMs(clock, 'a', START + 40_000)).toBe(50_000)
+    expect(getRemainingMs(clock, 'b', START + 40_000)).toBe(30_000)
+  })
+
+  it('gives a flagged player no increment', () => {
+    const clock = createChessClock(['a', 'b'], 60, 'a', START)
+    const next = switchTurn(clock, 'b', 5, START + 61_000)
+
+    expect(next.remainingMs.a).toBe(0)
+    expect(getFlaggedPlayer(next, START + 61_000)).toBe('a')
+  })
+
+  it('stops the clock when nobody is next', () => {
+    const next = switchTurn(createChessClock(['a', 'b'], 60, 'a', START), null, 0, START + 1_000)
+    expect(next.turnStartedAt).toBeNull()
+    expect(getFlaggedPlayer(next, START + 120_000)).toBeNull()
+  })
+})
+
+describe('getNextPlayer', () => {
+  it('alternates in player order and wraps around', () => {
+    expect(getNextPlayer(['a', 'b', 'c'], 'a')).toBe('b')
+    expect(getNextPlayer(['a', 'b', 'c'], 'c')).toBe('a')
+    expect(getNextPlayer(['a', 'b'], null)).toBe('a')
+  })
+
+  it('skips players who have finished', () => {
+    expect(getNextPlayer(['a', 'b', 'c'], 'a', ['b'])).toBe('c')
+    expect(getNextPlayer(['a', 'b'], 'a', ['b'])).toBe('a')
+  })
+
+  it('returns null once nobody can guess', () => {
+    expect(getNextPlayer(['a', 'b'], 'a', ['a', 'b'])).toBeNull()
+    expect(getNextPlayer([], null)).toBeNull()
+  })
+})
@@ -0,0 +1,77 @@
+// Time bank options for chess-clock rooms, in seconds
+export const CLOCK_TIME_OPTIONS = [60, 120, 180, 300]
+export const CLOCK_INCREMENT_OPTIONS = [0, 2, 5, 10]
+
+// Only the active player's bank drains; everyone else's is frozen at `remainingMs`
+export interface ChessClockState {
+  remainingMs: Record<string, number>
+  activePlayerId: string | null
+  // When the active player's turn began (ms since epoch)
+  turnStartedAt: number | null
+}
+
+export function createChessClock(
+  playerIds: string[],
+  bankSeconds: number,
+  firstPlayerId: string | null,
+  startedAt: number
+): ChessClockState {
+  const remainingMs: Record<string, number> = {}
+  for (const id of playerIds) remainingMs[id] = bankSeconds * 1000
+
+  return {
+    remainingMs,
+    activePlayerId: firstPlayerId,
+    turnStartedAt: firstPlayerId ? startedAt : null
+  }
+}
+
+export function getRemainingMs(
+  clock: ChessClockState,
+  playerId: string,
+  now: number = Date.now()
+): number {
+  const banked = clock.remainingMs[playerId] ?? 0
+  if (playerId !== clock.activePlayerId || clock.turnStartedAt === null) return banked
+  return Math.max(0, banked - (now - clock.turnStartedAt))
+}
+
+// Charges the finished turn to its player, adds the increment, and starts the next player's turn
+export function switchTurn(
+  clock: ChessClockState,
+  nextPlayerId: string | null,
+  incrementSeconds: number,
+  now: number = Date.now()
+): ChessClockState {
+  const remainingMs = { ...clock.remainingMs }
+  if (clock.activePlayerId) {
+    const left = getRemainingMs(clock, clock.activePlayerId, now)
+    // A flagged player gets no increment back
+    remainingMs[clock.activePlayerId] = left > 0 ? left + incrementSeconds * 1000 : 0
+  }
+
+  return {
+    remainingMs,
+    activePlayerId: nextPlayerId,
+    turnStartedAt: nextPlayerId ? now : null
+  }
+}
+
+// The player whose bank has run out, if any; running out of time loses the game
+export function getFlaggedPlayer(clock: ChessClockState, now: number = Date.now()): string | null {
+  return Object.keys(clock.remainingMs).find((id) => getRemainingMs(clock, id, now) === 0) ?? null
+}
+
+// Turns alternate between the players who can still guess; null once nobody can, which stops the clock
+export function getNextPlayer(
+  playerIds: string[],
+  currentId: string | null,
+  finishedIds: string[] = []
+): string | null {
+  const index = currentId ? playerIds.indexOf(currentId) : -1
+  for (let step = 1; step <= playerIds.length; step++) {
+    const candidate = playerIds[(index + step) % playerIds.length]
+    if (!finishedIds.includes(candidate)) return candidate
+  }
+  return null
+}
@@ -0,0 +1,40 @@
+import { describe, expect, it } from '@jest/globals'
+import { createClockSample, estimateClockOffset } from './clockSync'
+
+describe('createClockSample', () => {
+  it('assumes the reply took half the round trip', () => {
+    // Sent at 1000, back at 1100; the server stamped 5050, the middle of the trip on its clock
+    expect(createClockSample(1000, 5050, 1100)).toEqual({ offset: 4000, roundTrip: 100 })
+  })
+
+  it('gives a negative offset when the server is behind', () => {
+    expect(createClockSample(1000, 520, 1040).offset).toBe(-500)
+  })
+})
+
+describe('estimateClockOffset', () => {
+  it('is zero without samples', () => {
+    expect(estimateClockOffset([])).toBe(0)
+  })
+
+  it('ignores the slowest half of the round trips', () => {
+    const samples = [
+      { offset: 100, roundTrip: 20 },
+      { offset: 104, roundTrip: 30 },
+      { offset: 900, roundTrip: 800 },
+      { offset: -700, roundTrip: 600 }
+    ]
+    expect(estimateClockOffset(samples)).toBe(102)
+  })
+
+  it('takes the median so one outlier among fast pings does not move it', () => {
+    const samples = [
+      { offset: 100, roundTrip: 20 },
+      { offset: 5000, roundTrip: 21 },
+      { offset: 102, roundTrip: 22 },
+      { offset: 0, roundTrip: 500 },
+      { offset: 0, roundTrip: 500 }
+    ]
+    expect(estimateClockOffset(samples)).toBe(102)
+  })
+})
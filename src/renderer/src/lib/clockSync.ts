@@ -0,0 +1,30 @@
+// One ping round-trip: how far the server's clock is ahead of ours, and how long the trip took
+export interface ClockSample {
+  offset: number
+  roundTrip: number
+}
+
+// Assumes the reply spent half the round trip in flight
+export function createClockSample(
+  sentAt: number,
+  serverTime: number,
+  receivedAt: number
+): ClockSample {
+  const roundTrip = receivedAt - sentAt
+  return { offset: serverTime + roundTrip / 2 - receivedAt, roundTrip }
+}
+
+// Slow round trips are the most likely to be lopsided, so only the fastest half is trusted; the
+// median of those keeps a single outlier from moving every timer
+export function estimateClockOffset(samples: ClockSample[]): number {
+  if (samples.length === 0) return 0
+
+  const fastest = [...samples]
+    .sort((a, b) => a.roundTrip - b.roundTrip)
+    .slice(0, Math.ceil(samples.length / 2))
+    .map((sample) => sample.offset)
+    .sort((a, b) => a - b)
+
+  const middle = Math.floor(fastest.length / 2)
+  return fastest.length % 2 === 0 ? (fastest[middle - 1] + fastest[middle]) / 2 : fastest[middle]
+}
@@ -0,0 +1,47 @@
+import { describe, expect, it } from '@jest/globals'
+import dayjs from 'dayjs'
+import { DAILY_EPOCH, getDailySolution, getDayNumber, seededShuffle } from './daily'
+import { getAnswerWords, isAnswerWord } from './dictionary'
+
+describe('getDayNumber', () => {
+  it('numbers puzzles from the epoch', () => {
+    expect(getDayNumber(DAILY_EPOCH)).toBe(1)
+    expect(getDayNumber(dayjs(DAILY_EPOCH).add(1, 'day'))).toBe(2)
+    expect(getDayNumber(dayjs(DAILY_EPOCH).add(365, 'day'))).toBe(366)
+  })
+
+  it('gives the whole day the same number', () => {
+    const morning = dayjs(DAILY_EPOCH).add(10, 'day').hour(0).minute(1)
+    expect(getDayNumber(morning.hour(23))).toBe(getDayNumber(morning))
+  })
+})
+
+describe('seededShuffle', () => {
+  it('is a permutation that depends only on the seed', () => {
+    const items = ['A', 'B', 'C', 'D', 'E', 'F', 'G', 'H']
+    const shuffled = seededShuffle(items, 42)
+    expect(seededShuffle(items, 42)).toEqual(shuffled)
+    expect([...shuffled].sort()).toEqual(items)
+    expect(items).toEqual(['A', 'B', 'C', 'D', 'E', 'F', 'G', 'H'])
+  })
+})
+
+describe('getDailySolution', () => {
+  const cycle = getAnswerWords(5).length
+
+  it('is the same answer every time for a given day', () => {
+    const solution = getDailySolution(100)
+    expect(getDailySolution(100)).toBe(solution)
+    expect(isAnswerWord(solution)).toBe(true)
+  })
+
+  it('only repeats after every answer has been used', () => {
+    const days = Array.from({ length: cycle }, (_, i) => getDailySolution(i + 1))
+    expect(new Set(days).size).toBe(cycle)
+    expect(getDailySolution(cycle + 1)).toBe(getDailySolution(1))
+  })
+
+  it('wraps days before the epoch into the cycle', () => {
+    expect(getDailySolution(0)).toBe(getDailySolution(cycle))
+  })
+})
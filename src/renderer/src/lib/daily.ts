@@ -0,0 +1,77 @@
+import dayjs from 'dayjs'
+import { getAnswerWords } from './dictionary'
+
+// Puzzle No. 1 was played on this date
+export const DAILY_EPOCH = '2020-06-19'
+export const DAILY_WORD_LENGTH = 5
+export const DAILY_MAX_ATTEMPTS = 6
+
+// Changing the seed reorders every future puzzle, so it must never change
+const DAILY_SHUFFLE_SEED = 0x5eed1e
+
+const DAILY_STORAGE_KEY = 'word-duel:daily'
+
+export interface DailyProgress {
+  dayNumber: number
+  guesses: string[]
+}
+
+export function getDayNumber(date: dayjs.ConfigType = undefined): number {
+  return dayjs(date).diff(DAILY_EPOCH, 'day') + 1
+}
+
+// Small seeded PRNG (mulberry32) so every client produces the same sequence
+function createSeededRandom(seed: number): () => number {
+  let state = seed >>> 0
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+export function seededShuffle<T>(items: T[], seed: number): T[] {
+  const random = createSeededRandom(seed)
+  const shuffled = [...items]
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1))
+    ;[shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]]
+  }
+  return shuffled
+}
+
+let dailyOrder: string[] | null = null
+
+// Walks through the shuffled answer list one word per day, repeating only after a full cycle
+export function getDailySolution(dayNumber: number): string {
+  if (!dailyOrder) {
+    dailyOrder = seededShuffle(getAnswerWords(DAILY_WORD_LENGTH), DAILY_SHUFFLE_SEED)
+  }
+  const index = (((dayNumber - 1) % dailyOrder.length) + dailyOrder.length) % dailyOrder.length
+  return dailyOrder[index]
+}
+
+export function loadDailyProgress(dayNumber: number): DailyProgress {
+  try {
+    const saved = localStorage.getItem(DAILY_STORAGE_KEY)
+    if (saved) {
+      const progress = JSON.parse(saved) as DailyProgress
+      if (progress.dayNumber === dayNumber && Array.isArray(progress.guesses)) {
+        return progress
+      }
+    }
+  } catch (error) {
+    console.warn('Could not read daily puzzle progress:', error)
+  }
+  return { dayNumber, guesses: [] }
+}
+
+export function saveDailyProgress(progress: DailyProgress): void {
+  try {
+    localStorage.setItem(DAILY_STORAGE_KEY, JSON.stringify(progress))
+  } catch (error) {
+    console.warn('Could not save daily puzzle progress:', error)
+  }
+}
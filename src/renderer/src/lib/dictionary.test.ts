@@ -0,0 +1,64 @@
+import { describe, expect, it } from '@jest/globals'
+import {
+  getAnswerWords,
+  getRandomAnswer,
+  getWordList,
+  isAnswerWord,
+  isDictionaryWord,
+  SUPPORTED_WORD_LENGTHS
+} from './dictionary'
+
+describe('isDictionaryWord', () => {
+  it('accepts common and obscure words in any case', () => {
+    expect(isDictionaryWord('CRANE')).toBe(true)
+    expect(isDictionaryWord('crane')).toBe(true)
+    expect(isDictionaryWord('AALII')).toBe(true)
+  })
+
+  it('rejects strings that are not words', () => {
+    expect(isDictionaryWord('AAAAA')).toBe(false)
+    expect(isDictionaryWord('CRANX')).toBe(false)
+  })
+
+  it('rejects unsupported lengths', () => {
+    expect(isDictionaryWord('')).toBe(false)
+    expect(isDictionaryWord('CAT')).toBe(false)
+    expect(isDictionaryWord('BOOKKEEPER')).toBe(false)
+  })
+
+  it('checks every supported length against its own list', () => {
+    expect(isDictionaryWord('ROAD')).toBe(true)
+    expect(isDictionaryWord('PLANET')).toBe(true)
+    expect(isDictionaryWord('BALLOON')).toBe(true)
+    expect(isDictionaryWord('ELEPHANT')).toBe(true)
+    for (const length of SUPPORTED_WORD_LENGTHS) {
+      const [first] = getWordList(length).words
+      expect(first).toHaveLength(length)
+      expect(isDictionaryWord(first)).toBe(true)
+    }
+  })
+})
+
+describe('isAnswerWord', () => {
+  it('accepts curated answers only', () => {
+    expect(isAnswerWord('crane')).toBe(true)
+    expect(isAnswerWord('AALII')).toBe(false)
+    expect(isDictionaryWord('AALII')).toBe(true)
+  })
+
+  it('only holds words that can also be guessed', () => {
+    for (const length of SUPPORTED_WORD_LENGTHS) {
+      expect(getAnswerWords(length).every(isDictionaryWord)).toBe(true)
+    }
+  })
+})
+
+describe('getRandomAnswer', () => {
+  it('draws from the answer list for the requested length', () => {
+    for (const length of SUPPORTED_WORD_LENGTHS) {
+      const word = getRandomAnswer(length)
+      expect(word).toHaveLength(length)
+      expect(isAnswerWord(word)).toBe(true)
+    }
+  })
+})
@@ -0,0 +1,96 @@
+import validWords4 from '../data/validWords4.json'
+import validWords5 from '../data/validWords.json'
+import validWords6 from '../data/validWords6.json'
+import validWords7 from '../data/validWords7.json'
+import validWords8 from '../data/validWords8.json'
+import answerWords4 from '../data/answerWords4.json'
+import answerWords5 from '../data/answerWords.json'
+import answerWords6 from '../data/answerWords6.json'
+import answerWords7 from '../data/answerWords7.json'
+import answerWords8 from '../data/answerWords8.json'
+
+export interface WordList {
+  words: string[]
+  count: number
+  description: string
+  source: string
+  lastUpdated: string
+}
+
+export const SUPPORTED_WORD_LENGTHS = [4, 5, 6, 7, 8]
+
+const wordLists: Record<number, WordList> = {
+  4: validWords4,
+  5: validWords5,
+  6: validWords6,
+  7: validWords7,
+  8: validWords8
+}
+
+// Common words that are fair to use as solutions
+const answerLists: Record<number, WordList> = {
+  4: answerWords4,
+  5: answerWords5,
+  6: answerWords6,
+  7: answerWords7,
+  8: answerWords8
+}
+
+// Sets are built on first lookup so unused lengths cost nothing
+const wordSets = new Map<string, Set<string>>()
+
+function getWordSet(kind: 'valid' | 'answer', length: number): Set<string> {
+  const key = `${kind}-${length}`
+  let set = wordSets.get(key)
+  if (!set) {
+    set = new Set(kind === 'valid' ? getValidWords(length) : getAnswerWords(length))
+    wordSets.set(key, set)
+  }
+  return set
+}
+
+export function isSupportedWordLength(length: number): boolean {
+  return SUPPORTED_WORD_LENGTHS.includes(length)
+}
+
+export function getWordList(length: number): WordList {
+  const list = wordLists[length]
+  if (!list) {
+    throw new Error(`No word list for ${length}-letter words`)
+  }
+  return list
+}
+
+export function getAnswerList(length: number): WordList {
+  const list = answerLists[length]
+  if (!list) {
+    throw new Error(`No answer list for ${length}-letter words`)
+  }
+  return list
+}
+
+export function getValidWords(length: number): string[] {
+  return getWordList(length).words
+}
+
+export function getAnswerWords(length: number): string[] {
+  return getAnswerList(length).words
+}
+
+export function getRandomAnswer(length: number): string {
+  const answers = getAnswerWords(length)
+  return answers[Math.floor(Math.random() * answers.length)]
+}
+
+export function isAnswerWord(word: string): boolean {
+  const upper = word.toUpperCase()
+  if (!isSupportedWordLength(upper.length)) return false
+  return getWordSet('answer', upper.length).has(upper)
+}
+
+// Any guessable word; the word lists already include every answer
+export function isDictionaryWord(word: string): boolean {
+  const upper = word.toUpperCase()
+  if (!isSupportedWordLength(upper.length)) return false
+  return getWordSet('valid', upper.length).has(upper)
+}
@@ -0,0 +1,34 @@
+import type { GameMode } from '../stores/gameStore'
+
+interface GameModeInfo {
+  label: string
+  icon: string
+  tagline: string
+  maxPlayers: number
+}
+
+export const GAME_MODES: Record<GameMode, GameModeInfo> = {
+  duel: {
+    label: 'Duel',
+    icon: '⚔️',
+    tagline: 'Face off against one opponent',
+    maxPlayers: 2
+  },
+  battleRoyale: {
+    label: 'Battle Royale',
+    icon: '🏆',
+    tagline: 'Last player standing wins',
+    maxPlayers: 8
+  },
+  chessClock: {
+    label: 'Chess Clock',
+    icon: '♟️',
+    tagline: 'Take turns guessing against your own time bank',
+    maxPlayers: 2
+  }
+}
+
+// Two-player modes share the duel layouts
+export function isHeadToHead(mode: GameMode): boolean {
+  return mode !== 'battleRoyale'
+}
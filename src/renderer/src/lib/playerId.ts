@@ -0,0 +1,52 @@
+import type { Player } from '../stores/gameStore'
+
+const PLAYER_ID_STORAGE_KEY = 'word-duel:player-id'
+
+let cachedPlayerId: string | null = null
+
+// A random id for this install, sent when creating or joining rooms. Usernames can repeat and
+// change, so anything kept per player (like ratings) is keyed by this instead.
+export function getLocalPlayerId(): string {
+  if (cachedPlayerId) return cachedPlayerId
+
+  try {
+    const saved = localStorage.getItem(PLAYER_ID_STORAGE_KEY)
+    if (saved) {
+      cachedPlayerId = saved
+      return saved
+    }
+  } catch (error) {
+    console.warn('Could not read player id:', error)
+  }
+
+  const id = crypto.randomUUID()
+  setLocalPlayerId(id)
+  return id
+}
+
+// Adopts the id from a saved profile, e.g. after local storage was cleared
+export function setLocalPlayerId(id: string): void {
+  cachedPlayerId = id
+  try {
+    localStorage.setItem(PLAYER_ID_STORAGE_KEY, id)
+  } catch (error) {
+    console.warn('Could not save player id:', error)
+  }
+}
+
+// Boards, scores and clocks are keyed by a player's room id. Payloads may name a player by that id
+// or by their stable id; the username is only a fallback for servers that send neither.
+export function findPlayer(
+  players: Player[],
+  playerId: string | null | undefined,
+  username?: string | null
+): Player | undefined {
+  const byId = playerId
+    ? players.find((player) => player.id === playerId || player.playerId === playerId)
+    : undefined
+  return byId ?? (username ? players.find((player) => player.username === username) : undefined)
+}
+
+export function findLocalPlayer(players: Player[], username?: string | null): Player | undefined {
+  return findPlayer(players, getLocalPlayerId(), username)
+}
@@ -0,0 +1,144 @@
+import type { GameMode } from '../stores/gameStore'
+import { getLocalPlayerId } from './playerId'
+
+export const PROFILE_FORMAT_VERSION = 1
+
+export const AVATAR_EMOJIS = [
+  '😀',
+  '😃',
+  '😄',
+  '😁',
+  '😆',
+  '😅',
+  '😂',
+  '🤣',
+  '😊',
+  '😇',
+  '🙂',
+  '🙃',
+  '😉',
+  '😌',
+  '😍',
+  '🥰',
+  '😘',
+  '😗',
+  '😙',
+  '😚',
+  '😋',
+  '😛',
+  '😝',
+  '😜',
+  '🤪',
+  '🤨',
+  '🧐',
+  '🤓',
+  '😎',
+  '🤩',
+  '🥳',
+  '😏',
+  '😒',
+  '😞',
+  '😔',
+  '😟',
+  '😕',
+  '🙁',
+  '☹️',
+  '😣',
+  '😖',
+  '😫',
+  '😩',
+  '🥺',
+  '😢',
+  '😭',
+  '😤',
+  '😠',
+  '😡',
+  '🤬',
+  '🤯',
+  '😳',
+  '🥵',
+  '🥶',
+  '😱',
+  '😨',
+  '😰',
+  '😥',
+  '😓',
+  '🤗',
+  '🤔',
+  '🤭',
+  '🤫',
+  '🤥',
+  '😶',
+  '😐',
+  '😑',
+  '😯',
+  '😦',
+  '😧',
+  '😮',
+  '😲',
+  '🥱',
+  '😴',
+  '🤤',
+  '😪',
+  '😵',
+  '🤐',
+  '🥴',
+  '🤢'
+]
+
+// This install's player: the id is what rooms, ratings and stats know us by; the name can change freely
+export interface PlayerProfile {
+  id: string
+  displayName: string
+  avatar: string
+  preferredMode: GameMode
+  updatedAt: string
+}
+
+interface ProfileFile extends PlayerProfile {
+  version: number
+}
+
+// Players who haven't picked an avatar get a consistent one from their id
+export function getDefaultAvatar(identifier: string): string {
+  return AVATAR_EMOJIS[identifier.charCodeAt(0) % AVATAR_EMOJIS.length]
+}
+
+export function createProfile(): PlayerProfile {
+  const id = getLocalPlayerId()
+  return {
+    id,
+    displayName: '',
+    avatar: getDefaultAvatar(id),
+    preferredMode: 'duel',
+    updatedAt: new Date().toISOString()
+  }
+}
+
+export function serializeProfile(profile: PlayerProfile): string {
+  const file: ProfileFile = { version: PROFILE_FORMAT_VERSION, ...profile }
+  return JSON.stringify(file, null, 2)
+}
+
+export function parseProfile(contents: string): PlayerProfile {
+  const { version, ...data } = JSON.parse(contents) as Partial<ProfileFile>
+  if (version !== PROFILE_FORMAT_VERSION) {
+    throw new Error(`Unsupported profile version: ${version ?? 'missing'}`)
+  }
+  if (typeof data.id !== 'string' || !data.id) {
+    throw new Error('Profile is missing its id')
+  }
+  return { ...createProfile(), ...data, id: data.id }
+}
+
+// Kept in the user data folder via the Electron main process; the browser build only has the id
+export async function loadProfile(): Promise<PlayerProfile | null> {
+  if (!window.api?.readStore) return null
+  const contents = await window.api.readStore('profile')
+  return contents === null ? null : parseProfile(contents)
+}
+
+export async function saveProfile(profile: PlayerProfile): Promise<void> {
+  if (!window.api?.writeStore) return
+  await window.api.writeStore('profile', serializeProfile(profile))
+}
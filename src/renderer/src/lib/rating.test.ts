@@ -0,0 +1,96 @@
+import { describe, expect, it } from '@jest/globals'
+import {
+  DEFAULT_RATING,
+  createRating,
+  getDuelOutcome,
+  getExpectedScore,
+  getKFactor,
+  parseRatings,
+  rateDuel,
+  serializeRatings
+} from './rating'
+import type { PlayerRating } from './rating'
+import type { Player } from '../stores/gameStore'
+
+function rating(value: number, games = 20): PlayerRating {
+  return { ...createRating('player'), rating: value, games }
+}
+
+describe('getExpectedScore', () => {
+  it('is even between equal ratings', () => {
+    expect(getExpectedScore(1500, 1500)).toBe(0.5)
+  })
+
+  it('gives a 400-point favourite ten-to-one odds', () => {
+    expect(getExpectedScore(1600, 1200)).toBeCloseTo(10 / 11)
+    expect(getExpectedScore(1200, 1600) + getExpectedScore(1600, 1200)).toBeCloseTo(1)
+  })
+})
+
+describe('getKFactor', () => {
+  it('moves provisional ratings faster', () => {
+    expect(getKFactor(rating(DEFAULT_RATING, 0))).toBe(40)
+    expect(getKFactor(rating(DEFAULT_RATING, 9))).toBe(40)
+    expect(getKFactor(rating(DEFAULT_RATING, 10))).toBe(20)
+  })
+})
+
+describe('rateDuel', () => {
+  it('moves equal players by half the K-factor', () => {
+    const [winner, loser] = rateDuel(rating(1500), rating(1500), 1)
+    expect(winner).toMatchObject({ rating: 1510, games: 21, wins: 1, losses: 0 })
+    expect(loser).toMatchObject({ rating: 1490, games: 21, wins: 0, losses: 1 })
+  })
+
+  it('rewards an upset more than an expected win', () => {
+    const [upset] = rateDuel(rating(1200), rating(1600), 1)
+    const [expected] = rateDuel(rating(1600), rating(1200), 1)
+    expect(upset.rating - 1200).toBe(18)
+    expect(expected.rating - 1600).toBe(2)
+  })
+
+  it('pulls ratings together on a draw', () => {
+    const [low, high] = rateDuel(rating(1400), rating(1600), 0.5)
+    expect(low).toMatchObject({ rating: 1405, draws: 1 })
+    expect(high).toMatchObject({ rating: 1595, draws: 1 })
+  })
+
+  it('rates each side with its own K-factor', () => {
+    const [newcomer, veteran] = rateDuel(rating(1500, 0), rating(1500, 50), 1)
+    expect(newcomer.rating).toBe(1520)
+    expect(veteran.rating).toBe(1490)
+  })
+})
+
+describe('getDuelOutcome', () => {
+  const alice: Player = { id: 'socket-a', username: 'alice', playerId: 'player-a', score: 0 }
+  const bob: Player = { id: 'socket-b', username: 'bob', playerId: 'player-b', score: 0 }
+
+  it('scores the first player by any of their ids', () => {
+    expect(getDuelOutcome(alice, bob, 'socket-a')).toBe(1)
+    expect(getDuelOutcome(alice, bob, 'player-a')).toBe(1)
+    expect(getDuelOutcome(alice, bob, 'bob')).toBe(0)
+  })
+
+  it('is a draw without a winner', () => {
+    expect(getDuelOutcome(alice, bob, null)).toBe(0.5)
+  })
+
+  it('skips rating when the winner is neither player', () => {
+    expect(getDuelOutcome(alice, bob, 'carol')).toBeNull()
+  })
+})
+
+describe('parseRatings', () => {
+  it('reads back what serializeRatings wrote', () => {
+    const ratings = { 'player-a': rating(1432) }
+    expect(parseRatings(serializeRatings(ratings))).toEqual(ratings)
+  })
+
+  it('rejects files from another format version', () => {
+    expect(() => parseRatings(JSON.stringify({ version: 99, ratings: {} }))).toThrow(
+      'Unsupported ratings version: 99'
+    )
+    expect(() => parseRatings('{}')).toThrow('Unsupported ratings version: missing')
+  })
+})
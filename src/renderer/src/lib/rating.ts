@@ -0,0 +1,130 @@
+import type { Player } from '../stores/gameStore'
+import { isWinner } from './winner'
+
+export const RATING_FORMAT_VERSION = 1
+export const DEFAULT_RATING = 1200
+
+// New players move faster until the rating has settled
+const PROVISIONAL_GAMES = 10
+const PROVISIONAL_K_FACTOR = 40
+const K_FACTOR = 20
+
+export interface PlayerRating {
+  rating: number
+  games: number
+  wins: number
+  losses: number
+  draws: number
+  // Last name seen for this id, only for display
+  username: string
+  updatedAt: string
+}
+
+// Every player rated on this machine, by stable player id
+export type RatingTable = Record<string, PlayerRating>
+
+interface RatingFile {
+  version: number
+  ratings: RatingTable
+}
+
+// 1 for a win, 0.5 for a draw, 0 for a loss
+export type DuelOutcome = 0 | 0.5 | 1
+
+export function createRating(username: string): PlayerRating {
+  return {
+    rating: DEFAULT_RATING,
+    games: 0,
+    wins: 0,
+    losses: 0,
+    draws: 0,
+    username,
+    updatedAt: new Date().toISOString()
+  }
+}
+
+// Ratings follow the id the player joined with; players without one aren't rated
+export function getRatingKey(player: Player): string | null {
+  return player.playerId ?? null
+}
+
+export function getKFactor(rating: PlayerRating): number {
+  return rating.games < PROVISIONAL_GAMES ? PROVISIONAL_K_FACTOR : K_FACTOR
+}
+
+// Chance that a beats b, from the usual 400-point logistic curve
+export function getExpectedScore(a: number, b: number): number {
+  return 1 / (1 + 10 ** ((b - a) / 400))
+}
+
+function applyResult(
+  rating: PlayerRating,
+  opponent: PlayerRating,
+  outcome: DuelOutcome
+): PlayerRating {
+  const change = Math.round(
+    getKFactor(rating) * (outcome - getExpectedScore(rating.rating, opponent.rating))
+  )
+  return {
+    ...rating,
+    rating: rating.rating + change,
+    games: rating.games + 1,
+    wins: rating.wins + (outcome === 1 ? 1 : 0),
+    losses: rating.losses + (outcome === 0 ? 1 : 0),
+    draws: rating.draws + (outcome === 0.5 ? 1 : 0),
+    updatedAt: new Date().toISOString()
+  }
+}
+
+// Outcome for a; null when game-over names someone who is neither player, so the game can't be rated
+export function getDuelOutcome(a: Player, b: Player, winner: string | null): DuelOutcome | null {
+  if (!winner) return 0.5
+  if (isWinner(a, winner)) return 1
+  if (isWinner(b, winner)) return 0
+  return null
+}
+
+// Both sides are updated from their ratings before the game
+export function rateDuel(
+  a: PlayerRating,
+  b: PlayerRating,
+  outcomeForA: DuelOutcome
+): [PlayerRating, PlayerRating] {
+  return [applyResult(a, b, outcomeForA), applyResult(b, a, (1 - outcomeForA) as DuelOutcome)]
+}
+
+// "+12" / "−8", with a real minus sign
+export function formatRatingChange(change: number): string {
+  if (change > 0) return `+${change}`
+  if (change < 0) return `−${Math.abs(change)}`
+  return '±0'
+}
+
+export function serializeRatings(ratings: RatingTable): string {
+  const file: RatingFile = { version: RATING_FORMAT_VERSION, ratings }
+  return JSON.stringify(file, null, 2)
+}
+
+export function parseRatings(contents: string): RatingTable {
+  const data = JSON.parse(contents) as Partial<RatingFile>
+  if (
+    data.version !== RATING_FORMAT_VERSION ||
+    typeof data.ratings !== 'object' ||
+    data.ratings === null
+  ) {
+    throw new Error(`Unsupported ratings version: ${data.version ?? 'missing'}`)
+  }
+  return data.ratings
+}
+
+// Ratings live in the user data folder via the Electron main process; the browser build has none
+export async function loadRatingTable(): Promise<RatingTable> {
+  if (!window.api?.readStore) return {}
+  const contents = await window.api.readStore('ratings')
+  return contents === null ? {} : parseRatings(contents)
+}
+
+export async function saveRatingTable(ratings: RatingTable): Promise<void> {
+  if (!window.api?.writeStore) return
+  await window.api.writeStore('ratings', serializeRatings(ratings))
+}
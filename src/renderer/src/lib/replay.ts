@@ -0,0 +1,133 @@
+import { createEmptyBoard } from '../stores/gameStore'
+import type { GameTile, Room } from '../stores/gameStore'
+
+// Bump when the recording shape changes; older files are rejected rather than misread
+export const REPLAY_FORMAT_VERSION = 1
+
+// Every event carries `at`, the milliseconds since recording began
+export type ReplayEvent =
+  | { type: 'join'; at: number; username: string }
+  | { type: 'start'; at: number; players: string[] }
+  | { type: 'guess'; at: number; username: string; attempt: number; tiles: GameTile[] }
+  | { type: 'eliminated'; at: number; username: string }
+  | { type: 'game-over'; at: number; winner: string | null; solution: string | null }
+
+export interface Replay {
+  version: number
+  roomCode: string
+  mode: Room['mode']
+  wordLength: number
+  maxAttempts: number
+  recordedAt: string
+  events: ReplayEvent[]
+}
+
+export interface ReplayFrame {
+  players: string[]
+  boards: Record<string, GameTile[][]>
+  eliminated: string[]
+  started: boolean
+  finished: boolean
+  winner: string | null
+  solution: string | null
+}
+
+export function getReplayDuration(replay: Replay): number {
+  return replay.events.length > 0 ? replay.events[replay.events.length - 1].at : 0
+}
+
+// Rebuilds every board as it stood at `time` by applying the events up to that point
+export function getReplayFrame(replay: Replay, time: number): ReplayFrame {
+  const frame: ReplayFrame = {
+    players: [],
+    boards: {},
+    eliminated: [],
+    started: false,
+    finished: false,
+    winner: null,
+    solution: null
+  }
+
+  const ensurePlayer = (username: string): void => {
+    if (frame.boards[username]) return
+    frame.players.push(username)
+    frame.boards[username] = createEmptyBoard(replay.maxAttempts, replay.wordLength)
+  }
+
+  for (const event of replay.events) {
+    if (event.at > time) break
+
+    switch (event.type) {
+      case 'join':
+        ensurePlayer(event.username)
+        break
+      case 'start':
+        frame.started = true
+        event.players.forEach(ensurePlayer)
+        break
+      case 'guess': {
+        ensurePlayer(event.username)
+        const board = frame.boards[event.username]
+        if (event.attempt >= 0 && event.attempt < board.length) {
+          frame.boards[event.username] = board.map((row, index) =>
+            index === event.attempt ? event.tiles : row
+          )
+        }
+        break
+      }
+      case 'eliminated':
+        if (!frame.eliminated.includes(event.username)) frame.eliminated.push(event.username)
+        break
+      case 'game-over':
+        frame.finished = true
+        frame.winner = event.winner
+        frame.solution = event.solution
+        break
+    }
+  }
+
+  return frame
+}
+
+export function serializeReplay(replay: Replay): string {
+  return JSON.stringify(replay, null, 2)
+}
+
+export function parseReplay(contents: string): Replay {
+  let data: Partial<Replay>
+  try {
+    data = JSON.parse(contents)
+  } catch {
+    throw new Error('Replay file is not valid JSON')
+  }
+
+  if (data.version !== REPLAY_FORMAT_VERSION) {
+    throw new Error(`Unsupported replay version: ${data.version ?? 'missing'}`)
+  }
+  if (
+    typeof data.roomCode !== 'string' ||
+    typeof data.wordLength !== 'number' ||
+    typeof data.maxAttempts !== 'number' ||
+    !Array.isArray(data.events)
+  ) {
+    throw new Error('Replay file is missing required fields')
+  }
+
+  return data as Replay
+}
+
+export function getReplayFileName(replay: Replay): string {
+  return `word-duel-${replay.roomCode}-${replay.recordedAt.slice(0, 10)}.json`
+}
+
+// Saving and loading go through the Electron main process, which owns the file dialogs
+export async function saveReplayFile(replay: Replay): Promise<boolean> {
+  if (!window.api?.saveReplay) throw new Error('Saving replays requires the desktop app')
+  return window.api.saveReplay(serializeReplay(replay), getReplayFileName(replay))
+}
+
+export async function loadReplayFile(): Promise<Replay | null> {
+  if (!window.api?.loadReplay) throw new Error('Loading replays requires the desktop app')
+  const contents = await window.api.loadReplay()
+  return contents === null ? null : parseReplay(contents)
+}
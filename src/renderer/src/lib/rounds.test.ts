@@ -0,0 +1,98 @@
+import { describe, expect, it } from '@jest/globals'
+import {
+  getEliminationCount,
+  getRoundScore,
+  getRoundStandings,
+  isFinalRound,
+  rankRoundResults
+} from './rounds'
+import type { RoundResult } from './rounds'
+
+function result(
+  username: string,
+  solved: boolean,
+  attempts: number,
+  timeMs: number | null
+): RoundResult {
+  return { playerId: `id-${username}`, username, solved, attempts, timeMs }
+}
+
+const usernames = (standings: RoundResult[]): string[] => standings.map((s) => s.username)
+
+describe('getRoundScore', () => {
+  it('scores fewer attempts higher and a failed round as zero', () => {
+    expect(getRoundScore(result('a', true, 1, 1000), 6)).toBe(600)
+    expect(getRoundScore(result('a', true, 6, 1000), 6)).toBe(100)
+    expect(getRoundScore(result('a', false, 6, null), 6)).toBe(0)
+  })
+})
+
+describe('getEliminationCount', () => {
+  it('knocks out one player, or half for bottomHalf', () => {
+    expect(getEliminationCount('slowest', 5)).toBe(1)
+    expect(getEliminationCount('worstScore', 5)).toBe(1)
+    expect(getEliminationCount('bottomHalf', 5)).toBe(2)
+  })
+
+  it('always leaves someone standing', () => {
+    expect(getEliminationCount('slowest', 1)).toBe(0)
+    expect(getEliminationCount('bottomHalf', 2)).toBe(1)
+    expect(getEliminationCount('slowest', 0)).toBe(0)
+  })
+})
+
+describe('getRoundStandings', () => {
+  const results = [
+    result('fast', true, 5, 20_000),
+    result('efficient', true, 2, 40_000),
+    result('stuck', false, 6, null),
+    result('slow', true, 4, 60_000)
+  ]
+
+  it('ranks by solve time for slowest and eliminates the last player', () => {
+    const standings = getRoundStandings(results, 'slowest', 6)
+    expect(usernames(standings)).toEqual(['fast', 'efficient', 'slow', 'stuck'])
+    expect(standings.map((s) => s.rank)).toEqual([1, 2, 3, 4])
+    expect(standings.filter((s) => s.eliminated).map((s) => s.username)).toEqual(['stuck'])
+  })
+
+  it('ranks by score for worstScore, breaking ties on time', () => {
+    const standings = getRoundStandings(
+      [...results, result('tied', true, 2, 30_000)],
+      'worstScore',
+      6
+    )
+    expect(usernames(standings)).toEqual(['tied', 'efficient', 'slow', 'fast', 'stuck'])
+    expect(standings[0].score).toBe(500)
+  })
+
+  it('eliminates the bottom half for bottomHalf', () => {
+    const standings = getRoundStandings(results, 'bottomHalf', 6)
+    expect(standings.filter((s) => s.eliminated).map((s) => s.username)).toEqual(['fast', 'stuck'])
+  })
+
+  it('falls back to username so every client agrees on full ties', () => {
+    const standings = getRoundStandings(
+      [result('bob', false, 6, null), result('alice', false, 6, null)],
+      'slowest',
+      6
+    )
+    expect(usernames(standings)).toEqual(['alice', 'bob'])
+    expect(isFinalRound(standings)).toBe(true)
+  })
+
+  it('does not treat a round with players left as the final one', () => {
+    expect(isFinalRound(getRoundStandings(results, 'slowest', 6))).toBe(false)
+  })
+})
+
+describe('rankRoundResults', () => {
+  it('ranks by score without eliminating anyone', () => {
+    const standings = rankRoundResults(
+      [result('loser', false, 6, null), result('winner', true, 3, null)],
+      6
+    )
+    expect(usernames(standings)).toEqual(['winner', 'loser'])
+    expect(standings.some((s) => s.eliminated)).toBe(false)
+  })
+})
@@ -0,0 +1,103 @@
+// How players are knocked out at the end of each Battle Royale round
+export type EliminationRule = 'slowest' | 'worstScore' | 'bottomHalf'
+
+export const ELIMINATION_RULES: Record<EliminationRule, { label: string; description: string }> = {
+  slowest: {
+    label: 'Slowest Out',
+    description: 'The last player to solve (or anyone who fails) is eliminated each round'
+  },
+  worstScore: {
+    label: 'Lowest Score Out',
+    description: 'The player with the lowest round score is eliminated each round'
+  },
+  bottomHalf: {
+    label: 'Bottom Half Out',
+    description: 'The lower-scoring half of the field is eliminated each round'
+  }
+}
+
+// Seconds between rounds while standings are shown
+export const ROUND_INTERMISSION_SECONDS = 10
+
+// One player's outcome for a round, as reported by the server in `round-over`
+export interface RoundResult {
+  playerId: string
+  username: string
+  solved: boolean
+  attempts: number
+  // Milliseconds from round start to the solving guess; null when unsolved
+  timeMs: number | null
+}
+
+export interface RoundStanding extends RoundResult {
+  rank: number
+  score: number
+  eliminated: boolean
+}
+
+// Fewer attempts scores higher; a failed round scores nothing
+export function getRoundScore(result: RoundResult, maxAttempts: number): number {
+  return result.solved ? (maxAttempts - result.attempts + 1) * 100 : 0
+}
+
+function compareTimes(a: RoundResult, b: RoundResult): number {
+  return (a.timeMs ?? Infinity) - (b.timeMs ?? Infinity)
+}
+
+function compareResults(rule: EliminationRule, maxAttempts: number) {
+  return (a: RoundResult, b: RoundResult): number => {
+    if (rule === 'slowest') {
+      if (a.solved !== b.solved) return a.solved ? -1 : 1
+      return compareTimes(a, b) || a.attempts - b.attempts
+    }
+    const scoreDiff = getRoundScore(b, maxAttempts) - getRoundScore(a, maxAttempts)
+    return scoreDiff || compareTimes(a, b)
+  }
+}
+
+// Always leaves at least one player standing
+export function getEliminationCount(rule: EliminationRule, playerCount: number): number {
+  const count = rule === 'bottomHalf' ? Math.floor(playerCount / 2) : 1
+  return Math.max(0, Math.min(count, playerCount - 1))
+}
+
+function toStandings(
+  results: RoundResult[],
+  rule: EliminationRule,
+  maxAttempts: number,
+  eliminationCount: number
+): RoundStanding[] {
+  const ranked = [...results].sort(
+    (a, b) => compareResults(rule, maxAttempts)(a, b) || a.username.localeCompare(b.username)
+  )
+  const survivors = ranked.length - eliminationCount
+
+  return ranked.map((result, index) => ({
+    ...result,
+    rank: index + 1,
+    score: getRoundScore(result, maxAttempts),
+    eliminated: index >= survivors
+  }))
+}
+
+// Best first; the bottom of the list is eliminated. Deterministic, so every client agrees.
+export function getRoundStandings(
+  results: RoundResult[],
+  rule: EliminationRule,
+  maxAttempts: number
+): RoundStanding[] {
+  return toStandings(results, rule, maxAttempts, getEliminationCount(rule, results.length))
+}
+
+// Ranks a round by score without knocking anyone out, e.g. one game of a duel series
+export function rankRoundResults(results: RoundResult[], maxAttempts: number): RoundStanding[] {
+  return toStandings(results, 'worstScore', maxAttempts, 0)
+}
+
+export function getRemainingPlayers(standings: RoundStanding[]): RoundStanding[] {
+  return standings.filter((standing) => !standing.eliminated)
+}
+
+export function isFinalRound(standings: RoundStanding[]): boolean {
+  return getRemainingPlayers(standings).length <= 1
+}
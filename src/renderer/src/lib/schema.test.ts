@@ -0,0 +1,133 @@
+import { describe, expect, it } from '@jest/globals'
+import {
+  array,
+  boolean,
+  date,
+  literal,
+  nullable,
+  number,
+  object,
+  optional,
+  record,
+  string,
+  transform,
+  union
+} from './schema'
+
+describe('primitives', () => {
+  it('accepts values of the right type', () => {
+    expect(string().parse('hi')).toEqual({ success: true, data: 'hi' })
+    expect(number().parse(0)).toEqual({ success: true, data: 0 })
+    expect(boolean().parse(false)).toEqual({ success: true, data: false })
+  })
+
+  it('explains what was expected and what arrived', () => {
+    expect(string().parse(42)).toEqual({
+      success: false,
+      error: 'payload: expected string, got number'
+    })
+    expect(boolean().parse('yes', 'room.hardMode')).toEqual({
+      success: false,
+      error: "room.hardMode: expected boolean, got 'yes'"
+    })
+  })
+
+  it('rejects numbers that are not finite', () => {
+    expect(number().parse(NaN)).toEqual({
+      success: false,
+      error: 'payload: expected number, got NaN'
+    })
+    expect(number().parse(Infinity).success).toBe(false)
+    expect(number().parse('5').success).toBe(false)
+  })
+
+  it('only accepts the listed literals', () => {
+    const status = literal('waiting', 'playing')
+    expect(status.parse('playing').success).toBe(true)
+    expect(status.parse('paused')).toEqual({
+      success: false,
+      error: "payload: expected 'waiting' | 'playing', got 'paused'"
+    })
+  })
+})
+
+describe('date', () => {
+  it('accepts ISO strings and epoch milliseconds', () => {
+    expect(date().parse('2025-01-01T12:00:00.000Z')).toEqual({
+      success: true,
+      data: new Date('2025-01-01T12:00:00.000Z')
+    })
+    expect(date().parse(0)).toEqual({ success: true, data: new Date(0) })
+  })
+
+  it('rejects anything that is not a real date', () => {
+    expect(date().parse('next tuesday')).toEqual({
+      success: false,
+      error: "payload: expected date, got 'next tuesday'"
+    })
+    expect(date().parse(Infinity).success).toBe(false)
+    expect(date().parse(null).success).toBe(false)
+  })
+})
+
+describe('optional and nullable', () => {
+  it('let through only their own empty value', () => {
+    expect(optional(string()).parse(undefined)).toEqual({ success: true, data: undefined })
+    expect(optional(string()).parse(null).success).toBe(false)
+    expect(nullable(string()).parse(null)).toEqual({ success: true, data: null })
+    expect(nullable(string()).parse(undefined).success).toBe(false)
+  })
+})
+
+describe('containers', () => {
+  it('points at the first bad array item', () => {
+    expect(array(number()).parse([1, 2, 'three'])).toEqual({
+      success: false,
+      error: "payload[2]: expected number, got 'three'"
+    })
+    expect(array(number()).parse({ 0: 1 }).success).toBe(false)
+  })
+
+  it('checks every record entry', () => {
+    expect(record(number()).parse({ a: 1, b: 2 })).toEqual({ success: true, data: { a: 1, b: 2 } })
+    expect(record(number()).parse({ a: 1, b: null })).toEqual({
+      success: false,
+      error: 'payload.b: expected number, got null'
+    })
+    expect(record(number()).parse([1]).success).toBe(false)
+  })
+
+  it('points at the missing or malformed object field', () => {
+    const player = object({ id: string(), score: number() })
+    expect(player.parse({ id: 'a' })).toEqual({
+      success: false,
+      error: 'payload.score: expected number, got undefined'
+    })
+    expect(player.parse(null)).toEqual({
+      success: false,
+      error: 'payload: expected object, got null'
+    })
+  })
+
+  it('drops unknown keys and omits missing optional ones', () => {
+    const player = object({ id: string(), avatar: optional(string()) })
+    expect(player.parse({ id: 'a', isAdmin: true })).toEqual({ success: true, data: { id: 'a' } })
+  })
+})
+
+describe('union and transform', () => {
+  it('takes the first schema that matches and reports every failure', () => {
+    const id = union<string | number>(string(), number())
+    expect(id.parse(7)).toEqual({ success: true, data: 7 })
+    expect(id.parse(true)).toEqual({
+      success: false,
+      error: 'payload: expected string, got boolean; or payload: expected number, got boolean'
+    })
+  })
+
+  it('converts only values that passed', () => {
+    const length = transform(string(), (value) => value.length)
+    expect(length.parse('abc')).toEqual({ success: true, data: 3 })
+    expect(length.parse(3).success).toBe(false)
+  })
+})
@@ -0,0 +1,147 @@
+// Small runtime validators for data the app doesn't control, such as socket payloads. A schema
+// checks a value and hands it back typed, or explains the first thing wrong with it.
+
+export type SchemaResult<T> = { success: true; data: T } | { success: false; error: string }
+
+export interface Schema<T> {
+  parse: (value: unknown, path?: string) => SchemaResult<T>
+}
+
+export type Infer<S> = S extends Schema<infer T> ? T : never
+
+function createSchema<T>(check: (value: unknown, path: string) => SchemaResult<T>): Schema<T> {
+  return { parse: (value, path = 'payload') => check(value, path) }
+}
+
+// Short strings and odd numbers are shown as-is, since the type alone wouldn't explain the failure
+function describe(value: unknown): string {
+  if (value === null) return 'null'
+  if (Array.isArray(value)) return 'array'
+  if (typeof value === 'string' && value.length <= 20) return `'${value}'`
+  if (typeof value === 'number' && !Number.isFinite(value)) return String(value)
+  return typeof value
+}
+
+function fail(path: string, expected: string, value: unknown): { success: false; error: string } {
+  return { success: false, error: `${path}: expected ${expected}, got ${describe(value)}` }
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+export function string(): Schema<string> {
+  return createSchema((value, path) =>
+    typeof value === 'string' ? { success: true, data: value } : fail(path, 'string', value)
+  )
+}
+
+// NaN and Infinity never mean anything useful in a payload
+export function number(): Schema<number> {
+  return createSchema((value, path) =>
+    typeof value === 'number' && Number.isFinite(value)
+      ? { success: true, data: value }
+      : fail(path, 'number', value)
+  )
+}
+
+export function boolean(): Schema<boolean> {
+  return createSchema((value, path) =>
+    typeof value === 'boolean' ? { success: true, data: value } : fail(path, 'boolean', value)
+  )
+}
+
+// ISO strings or epoch milliseconds; anything that doesn't make a real date is rejected
+export function date(): Schema<Date> {
+  return createSchema((value, path) => {
+    const parsed = typeof value === 'string' || typeof value === 'number' ? new Date(value) : null
+    return parsed && !Number.isNaN(parsed.getTime())
+      ? { success: true, data: parsed }
+      : fail(path, 'date', value)
+  })
+}
+
+export function literal<T extends string>(...values: T[]): Schema<T> {
+  return createSchema((value, path) =>
+    values.includes(value as T)
+      ? { success: true, data: value as T }
+      : fail(path, values.map((v) => `'${v}'`).join(' | '), value)
+  )
+}
+
+export function optional<T>(schema: Schema<T>): Schema<T | undefined> {
+  return createSchema<T | undefined>((value, path) =>
+    value === undefined ? { success: true, data: undefined } : schema.parse(value, path)
+  )
+}
+
+export function nullable<T>(schema: Schema<T>): Schema<T | null> {
+  return createSchema<T | null>((value, path) =>
+    value === null ? { success: true, data: null } : schema.parse(value, path)
+  )
+}
+
+export function array<T>(item: Schema<T>): Schema<T[]> {
+  return createSchema((value, path) => {
+    if (!Array.isArray(value)) return fail(path, 'array', value)
+
+    const data: T[] = []
+    for (let i = 0; i < value.length; i++) {
+      const result = item.parse(value[i], `${path}[${i}]`)
+      if (!result.success) return result
+      data.push(result.data)
+    }
+    return { success: true, data }
+  })
+}
+
+export function record<T>(item: Schema<T>): Schema<Record<string, T>> {
+  return createSchema((value, path) => {
+    if (!isPlainObject(value)) return fail(path, 'object', value)
+
+    const data: Record<string, T> = {}
+    for (const [key, entry] of Object.entries(value)) {
+      const result = item.parse(entry, `${path}.${key}`)
+      if (!result.success) return result
+      data[key] = result.data
+    }
+    return { success: true, data }
+  })
+}
+
+// Unknown keys are dropped, so extra fields from a newer server can't leak into app state
+export function object<S extends Record<string, Schema<unknown>>>(
+  shape: S
+): Schema<{ [K in keyof S]: Infer<S[K]> }> {
+  return createSchema((value, path) => {
+    if (!isPlainObject(value)) return fail(path, 'object', value)
+
+    const data: Record<string, unknown> = {}
+    for (const [key, schema] of Object.entries(shape)) {
+      const result = schema.parse(value[key], `${path}.${key}`)
+      if (!result.success) return result
+      if (result.data !== undefined) data[key] = result.data
+    }
+    return { success: true, data: data as { [K in keyof S]: Infer<S[K]> } }
+  })
+}
+
+// The first schema that accepts the value wins
+export function union<T>(...schemas: Array<Schema<T>>): Schema<T> {
+  return createSchema((value, path) => {
+    const errors: string[] = []
+    for (const schema of schemas) {
+      const result = schema.parse(value, path)
+      if (result.success) return result
+      errors.push(result.error)
+    }
+    return { success: false, error: errors.join('; or ') }
+  })
+}
+
+export function transform<T, U>(schema: Schema<T>, convert: (value: T) => U): Schema<U> {
+  return createSchema((value, path) => {
+    const result = schema.parse(value, path)
+    return result.success ? { success: true, data: convert(result.data) } : result
+  })
+}
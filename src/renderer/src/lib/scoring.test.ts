@@ -0,0 +1,99 @@
+import { describe, expect, it } from '@jest/globals'
+import { SCORING_WEIGHTS, calculateScore, getBoardProgress } from './scoring'
+import type { GameTile } from '../stores/gameStore'
+
+type Status = GameTile['status']
+
+function row(word: string, statuses: Status[]): GameTile[] {
+  return word.split('').map((letter, i) => ({ letter, status: statuses[i] }))
+}
+
+const solvedRow = row('CRANE', ['correct', 'correct', 'correct', 'correct', 'correct'])
+const twoGreensOneYellow = row('CRONY', ['correct', 'correct', 'absent', 'present', 'absent'])
+const threeYellows = row('NACRE', ['present', 'present', 'present', 'absent', 'correct'])
+const emptyRow = row('     ', ['unused', 'unused', 'unused', 'unused', 'unused'])
+
+const duel = SCORING_WEIGHTS.duel
+
+describe('getBoardProgress', () => {
+  it('ignores rows without feedback and reads the solve from the last row', () => {
+    expect(getBoardProgress([twoGreensOneYellow, solvedRow, emptyRow], duel)).toEqual({
+      solved: true,
+      attempts: 2,
+      greens: 5,
+      yellows: 0
+    })
+  })
+
+  it('keeps the best row by weighted tiles', () => {
+    expect(getBoardProgress([threeYellows, twoGreensOneYellow], duel)).toMatchObject({
+      solved: false,
+      greens: 2,
+      yellows: 1
+    })
+  })
+})
+
+describe('calculateScore', () => {
+  it('adds the solve bonus, unused attempts and speed for a solved board', () => {
+    const score = calculateScore(
+      {
+        board: [twoGreensOneYellow, solvedRow],
+        maxAttempts: 6,
+        timeMs: 30_000,
+        timeLimitMs: 120_000
+      },
+      duel
+    )
+    expect(score).toBe(500 + 4 * 100 + 150)
+  })
+
+  it('gives no speed points without a time limit or once it has passed', () => {
+    const input = { board: [solvedRow], maxAttempts: 6, timeMs: 10_000 }
+    expect(calculateScore({ ...input, timeLimitMs: null }, duel)).toBe(1000)
+    expect(calculateScore({ ...input, timeMs: 200_000, timeLimitMs: 120_000 }, duel)).toBe(1000)
+  })
+
+  it('scores an unsolved board from its greens and yellows', () => {
+    const score = calculateScore(
+      { board: [twoGreensOneYellow], maxAttempts: 6, timeMs: 1000, timeLimitMs: 120_000 },
+      duel
+    )
+    expect(score).toBe(2 * 30 + 10)
+  })
+
+  it('ranks the slowest solve above the best unsolved board', () => {
+    const slowestSolve = calculateScore(
+      {
+        board: [...Array(5).fill(threeYellows), solvedRow],
+        maxAttempts: 6,
+        timeMs: 120_000,
+        timeLimitMs: 120_000
+      },
+      duel
+    )
+    const bestUnsolved = 4 * duel.green + duel.yellow
+    expect(slowestSolve).toBeGreaterThan(bestUnsolved)
+  })
+})
+
+describe('SCORING_WEIGHTS', () => {
+  it('weights speed by mode', () => {
+    expect(SCORING_WEIGHTS.battleRoyale.speed).toBeGreaterThan(SCORING_WEIGHTS.duel.speed)
+    expect(SCORING_WEIGHTS.chessClock.speed).toBe(0)
+  })
+
+  it('keeps every partial board below a solve', () => {
+    for (const weights of Object.values(SCORING_WEIGHTS)) {
+      expect(8 * Math.max(weights.green, weights.yellow)).toBeLessThan(weights.solve)
+    }
+  })
+
+  it('awards chess clock players nothing for speed', () => {
+    const score = calculateScore(
+      { board: [solvedRow], maxAttempts: 6, timeMs: 0, timeLimitMs: 120_000 },
+      SCORING_WEIGHTS.chessClock
+    )
+    expect(score).toBe(500 + 5 * 100)
+  })
+})
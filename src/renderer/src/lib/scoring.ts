@@ -0,0 +1,91 @@
+import type { GameMode, GameTile, Player } from '../stores/gameStore'
+import { getRevealedRows } from './utils'
+
+export interface ScoringWeights {
+  // Flat reward for finding the word
+  solve: number
+  // Per attempt left unused when the word was found
+  attemptSaved: number
+  // Awarded in full for an instant solve, falling to zero at the time limit
+  speed: number
+  // Unsolved boards earn these for the greens and yellows of their best row
+  green: number
+  yellow: number
+}
+
+// Battle Royale leans on speed since every round is a race; a chess clock already charges for
+// thinking time, so speed earns nothing there
+export const SCORING_WEIGHTS: Record<GameMode, ScoringWeights> = {
+  duel: { solve: 500, attemptSaved: 100, speed: 200, green: 30, yellow: 10 },
+  battleRoyale: { solve: 500, attemptSaved: 75, speed: 300, green: 30, yellow: 10 },
+  chessClock: { solve: 500, attemptSaved: 100, speed: 0, green: 30, yellow: 10 }
+}
+
+export interface ScoreInput {
+  board: GameTile[][]
+  maxAttempts: number
+  // Milliseconds from the game start to the latest guess
+  timeMs: number | null
+  // Milliseconds the game allows; no speed points without one
+  timeLimitMs: number | null
+}
+
+export interface BoardProgress {
+  solved: boolean
+  attempts: number
+  // Tile counts from the best-scoring row
+  greens: number
+  yellows: number
+}
+
+export function getBoardProgress(board: GameTile[][], weights: ScoringWeights): BoardProgress {
+  const rows = getRevealedRows(board)
+  const solved = rows.length > 0 && rows[rows.length - 1].every((tile) => tile.status === 'correct')
+
+  let best = { greens: 0, yellows: 0 }
+  for (const row of rows) {
+    const greens = row.filter((tile) => tile.status === 'correct').length
+    const yellows = row.filter((tile) => tile.status === 'present').length
+    if (
+      greens * weights.green + yellows * weights.yellow >
+      best.greens * weights.green + best.yellows * weights.yellow
+    ) {
+      best = { greens, yellows }
+    }
+  }
+
+  return { solved, attempts: rows.length, ...best }
+}
+
+function getSpeedPoints(
+  timeMs: number | null,
+  timeLimitMs: number | null,
+  weights: ScoringWeights
+): number {
+  if (timeMs === null || timeLimitMs === null || timeLimitMs <= 0) return 0
+  const remaining = Math.min(1, Math.max(0, 1 - timeMs / timeLimitMs))
+  return Math.round(weights.speed * remaining)
+}
+
+// Any solve outscores every unsolved board, since partial progress tops out below `solve`
+export function calculateScore(
+  { board, maxAttempts, timeMs, timeLimitMs }: ScoreInput,
+  weights: ScoringWeights
+): number {
+  const progress = getBoardProgress(board, weights)
+
+  if (progress.solved) {
+    return (
+      weights.solve +
+      weights.attemptSaved * Math.max(0, maxAttempts - progress.attempts) +
+      getSpeedPoints(timeMs, timeLimitMs, weights)
+    )
+  }
+
+  return progress.greens * weights.green + progress.yellows * weights.yellow
+}
+
+// Players with their live scores filled in, for components that read `player.score`
+export function getScoredPlayers(players: Player[], scores: Record<string, number>): Player[] {
+  return players.map((player) => ({ ...player, score: scores[player.id] ?? player.score }))
+}
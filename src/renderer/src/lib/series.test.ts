@@ -0,0 +1,98 @@
+import { describe, expect, it } from '@jest/globals'
+import {
+  addSeriesWin,
+  formatSeriesScore,
+  getGameResults,
+  getSeriesWinner,
+  getWinsNeeded,
+  isSeries
+} from './series'
+import type { GameTile, Player, Room } from '../stores/gameStore'
+
+const alice: Player = { id: 'socket-a', username: 'alice', playerId: 'player-a', score: 0 }
+const bob: Player = { id: 'socket-b', username: 'bob', playerId: 'player-b', score: 0 }
+
+function duel(seriesLength: number, seriesScore?: Record<string, number>): Room {
+  return {
+    code: 'ABCD',
+    hostId: alice.id,
+    players: [alice, bob],
+    solutionWord: null,
+    status: 'finished',
+    mode: 'duel',
+    maxPlayers: 2,
+    seriesLength,
+    seriesScore
+  }
+}
+
+function revealedRow(word: string): GameTile[] {
+  return word.split('').map((letter) => ({ letter, status: 'absent' }))
+}
+
+describe('getWinsNeeded', () => {
+  it('needs a majority of the games', () => {
+    expect(getWinsNeeded(1)).toBe(1)
+    expect(getWinsNeeded(3)).toBe(2)
+    expect(getWinsNeeded(5)).toBe(3)
+    expect(getWinsNeeded(7)).toBe(4)
+  })
+})
+
+describe('isSeries', () => {
+  it('is only a series for duels longer than one game', () => {
+    expect(isSeries(duel(3))).toBe(true)
+    expect(isSeries(duel(1))).toBe(false)
+    expect(isSeries({ ...duel(3), mode: 'battleRoyale' })).toBe(false)
+    expect(isSeries(null)).toBe(false)
+  })
+})
+
+describe('addSeriesWin', () => {
+  it('credits the winner whether named by username, socket id or player id', () => {
+    expect(addSeriesWin(undefined, [alice, bob], 'alice')).toEqual({ 'socket-a': 1 })
+    expect(addSeriesWin({ 'socket-a': 1 }, [alice, bob], 'socket-a')).toEqual({ 'socket-a': 2 })
+    expect(addSeriesWin({ 'socket-a': 1 }, [alice, bob], 'player-b')).toEqual({
+      'socket-a': 1,
+      'socket-b': 1
+    })
+  })
+
+  it('leaves the score alone on a draw', () => {
+    const score = { 'socket-a': 1 }
+    expect(addSeriesWin(score, [alice, bob], null)).toEqual(score)
+    expect(addSeriesWin(score, [alice, bob], 'nobody')).toEqual(score)
+  })
+})
+
+describe('getSeriesWinner', () => {
+  it('clinches once a player reaches the wins needed', () => {
+    expect(getSeriesWinner(duel(3, { 'socket-a': 1, 'socket-b': 1 }))).toBeNull()
+    expect(getSeriesWinner(duel(3, { 'socket-a': 1, 'socket-b': 2 }))).toBe(bob)
+    expect(getSeriesWinner(duel(5, { 'socket-a': 2 }))).toBeNull()
+    expect(getSeriesWinner(duel(5, { 'socket-a': 3 }))).toBe(alice)
+  })
+
+  it('ends a single game with its only win', () => {
+    expect(getSeriesWinner(duel(1, { 'socket-b': 1 }))).toBe(bob)
+  })
+})
+
+describe('getGameResults', () => {
+  it('takes attempts from each board and marks only the winner solved', () => {
+    const results = getGameResults([alice, bob], 'alice', {
+      'socket-a': [revealedRow('CRANE'), revealedRow('SLATE'), [{ letter: '', status: 'unused' }]],
+      'socket-b': [revealedRow('POINT')]
+    })
+    expect(results).toEqual([
+      { playerId: 'socket-a', username: 'alice', solved: true, attempts: 2, timeMs: null },
+      { playerId: 'socket-b', username: 'bob', solved: false, attempts: 1, timeMs: null }
+    ])
+  })
+})
+
+describe('formatSeriesScore', () => {
+  it('lists wins in player order', () => {
+    expect(formatSeriesScore(duel(3, { 'socket-b': 2 }))).toBe('0–2')
+  })
+})
@@ -0,0 +1,64 @@
+import type { GameTile, Player, Room } from '../stores/gameStore'
+import type { RoundResult } from './rounds'
+import { getRevealedRows } from './utils'
+import { findWinner } from './winner'
+
+// 1 is a single game; the rest are best-of-N duel series
+export const SERIES_LENGTH_OPTIONS = [1, 3, 5, 7]
+
+// Seconds between games of a series
+export const SERIES_INTERMISSION_SECONDS = 5
+
+// Wins per player id
+export type SeriesScore = Record<string, number>
+
+export function getSeriesLength(room: Room | null): number {
+  return room?.mode === 'duel' ? (room.seriesLength ?? 1) : 1
+}
+
+export function isSeries(room: Room | null): boolean {
+  return getSeriesLength(room) > 1
+}
+
+export function getWinsNeeded(seriesLength: number): number {
+  return Math.floor(seriesLength / 2) + 1
+}
+
+// A drawn game (no winner) is replayed without changing the score
+export function addSeriesWin(
+  score: SeriesScore | undefined,
+  players: Player[],
+  winner: string | null
+): SeriesScore {
+  const next = { ...(score ?? {}) }
+  const player = findWinner(players, winner)
+  if (player) next[player.id] = (next[player.id] ?? 0) + 1
+  return next
+}
+
+export function getSeriesWinner(room: Room): Player | null {
+  const winsNeeded = getWinsNeeded(getSeriesLength(room))
+  return room.players.find((player) => (room.seriesScore?.[player.id] ?? 0) >= winsNeeded) ?? null
+}
+
+// Duel game-over only names a winner, so results are rebuilt from the boards (by player id) when
+// the server sends none; player.guesses is never filled in on the client
+export function getGameResults(
+  players: Player[],
+  winner: string | null,
+  boards: Record<string, GameTile[][]>
+): RoundResult[] {
+  const winningPlayer = findWinner(players, winner)
+  return players.map((player) => ({
+    playerId: player.id,
+    username: player.username,
+    solved: player.id === winningPlayer?.id,
+    attempts: getRevealedRows(boards[player.id] ?? []).length,
+    timeMs: null
+  }))
+}
+
+// e.g. "2–1"
+export function formatSeriesScore(room: Room): string {
+  return room.players.map((player) => room.seriesScore?.[player.id] ?? 0).join('–')
+}
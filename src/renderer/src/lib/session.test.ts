@@ -0,0 +1,95 @@
+import { afterEach, beforeEach, describe, expect, it, jest } from '@jest/globals'
+import {
+  clearSession,
+  getCarriedScores,
+  getRestoredScores,
+  getSessionPath,
+  loadSession,
+  saveSession
+} from './session'
+import type { GameSession } from './session'
+
+// Jest runs in node, which has no localStorage
+const storage = new Map<string, string>()
+Object.assign(globalThis, {
+  localStorage: {
+    getItem: (key: string) => storage.get(key) ?? null,
+    setItem: (key: string, value: string) => storage.set(key, value),
+    removeItem: (key: string) => storage.delete(key)
+  }
+})
+
+const session: Omit<GameSession, 'savedAt'> = {
+  roomCode: 'ABCD',
+  playerId: 'player-a',
+  username: 'alice',
+  isHost: true,
+  isSpectator: false,
+  rejoinToken: 'token',
+  scores: { 'socket-a': 120 }
+}
+
+describe('loadSession', () => {
+  beforeEach(() => storage.clear())
+  afterEach(() => {
+    jest.useRealTimers()
+  })
+
+  it('reads back what saveSession wrote', () => {
+    const saved = saveSession(session)
+    expect(loadSession()).toEqual(saved)
+  })
+
+  it('forgets sessions older than two hours', () => {
+    jest.useFakeTimers({ now: new Date('2026-01-01T12:00:00Z') })
+    saveSession(session)
+    jest.setSystemTime(new Date('2026-01-01T14:00:01Z'))
+    expect(loadSession()).toBeNull()
+    expect(storage.size).toBe(0)
+  })
+
+  it('ignores missing and malformed sessions', () => {
+    expect(loadSession()).toBeNull()
+    storage.set('word-duel:session', JSON.stringify({ roomCode: 'ABCD' }))
+    expect(loadSession()).toBeNull()
+  })
+
+  it('returns nothing after clearSession', () => {
+    saveSession(session)
+    clearSession()
+    expect(loadSession()).toBeNull()
+  })
+})
+
+describe('getSessionPath', () => {
+  const saved = { ...session, savedAt: 0 }
+
+  it('follows the room status', () => {
+    expect(getSessionPath(saved, 'waiting')).toBe('/room/ABCD')
+    expect(getSessionPath(saved, 'playing')).toBe('/game')
+    expect(getSessionPath(saved, 'finished')).toBe('/results')
+  })
+
+  it('always sends spectators back to the watch page', () => {
+    expect(getSessionPath({ ...saved, isSpectator: true }, 'playing')).toBe('/room/ABCD/watch')
+  })
+})
+
+describe('getRestoredScores', () => {
+  it('adds this round to the totals carried from earlier rounds', () => {
+    expect(
+      getRestoredScores({ 'socket-a': 120, 'socket-b': 80 }, { 'socket-a': 30, 'socket-c': 10 })
+    ).toEqual({
+      'socket-a': 150,
+      'socket-b': 80,
+      'socket-c': 10
+    })
+  })
+
+  it('undoes getCarriedScores', () => {
+    const totals = { 'socket-a': 150, 'socket-b': 80 }
+    const roundScores = { 'socket-a': 30 }
+    expect(getCarriedScores(totals, roundScores)).toEqual({ 'socket-a': 120, 'socket-b': 80 })
+    expect(getRestoredScores(getCarriedScores(totals, roundScores), roundScores)).toEqual(totals)
+  })
+})
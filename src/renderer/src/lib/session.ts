@@ -0,0 +1,105 @@
+import type { GameTile, Room } from '../stores/gameStore'
+import type { ChessClockState } from './chessClock'
+
+const SESSION_STORAGE_KEY = 'word-duel:session'
+
+// A saved session older than this is assumed to be gone on the server too
+const SESSION_MAX_AGE_MS = 2 * 60 * 60 * 1000
+
+// Enough to get back into a room after a refresh, restart or dropped connection
+export interface GameSession {
+  roomCode: string
+  playerId: string
+  username: string
+  isHost: boolean
+  isSpectator: boolean
+  // Issued by the server after joining; proves this client owns the seat
+  rejoinToken: string | null
+  // Chess clock rooms: banks and turn as of the last turn switch, in case the server doesn't keep them
+  chessClock?: ChessClockState | null
+  // Totals from earlier rounds or series games by player id; the current round is rebuilt from the boards
+  scores?: Record<string, number>
+  savedAt: number
+}
+
+// What the server sends back on a successful rejoin
+export interface RoomSnapshot {
+  roomCode: string
+  room: Room
+  status: Room['status']
+  // Every player's board so far, by player id
+  boards: Record<string, GameTile[][]>
+  winner?: string | null
+  rejoinToken?: string
+  chessClock?: ChessClockState | null
+  // Same as GameSession.scores, for servers that keep them
+  scores?: Record<string, number>
+}
+
+export function loadSession(): GameSession | null {
+  try {
+    const saved = localStorage.getItem(SESSION_STORAGE_KEY)
+    if (!saved) return null
+
+    const session = JSON.parse(saved) as GameSession
+    if (typeof session.roomCode !== 'string' || typeof session.playerId !== 'string') return null
+    if (Date.now() - session.savedAt > SESSION_MAX_AGE_MS) {
+      clearSession()
+      return null
+    }
+    return session
+  } catch (error) {
+    console.warn('Could not read saved session:', error)
+    return null
+  }
+}
+
+export function saveSession(session: Omit<GameSession, 'savedAt'>): GameSession {
+  const saved = { ...session, savedAt: Date.now() }
+  try {
+    localStorage.setItem(SESSION_STORAGE_KEY, JSON.stringify(saved))
+  } catch (error) {
+    console.warn('Could not save session:', error)
+  }
+  return saved
+}
+
+export function clearSession(): void {
+  try {
+    localStorage.removeItem(SESSION_STORAGE_KEY)
+  } catch (error) {
+    console.warn('Could not clear session:', error)
+  }
+}
+
+// Where a restored session belongs, based on how far the room has got
+export function getSessionPath(session: GameSession, status: Room['status']): string {
+  if (session.isSpectator) return `/room/${session.roomCode}/watch`
+  if (status === 'playing') return '/game'
+  if (status === 'finished') return '/results'
+  return `/room/${session.roomCode}`
+}
+
+// What is left of each total once this round's score is taken out
+export function getCarriedScores(
+  playerScores: Record<string, number>,
+  roundScores: Record<string, number>
+): Record<string, number> {
+  return Object.fromEntries(
+    Object.entries(playerScores).map(([playerId, total]) => [
+      playerId,
+      total - (roundScores[playerId] ?? 0)
+    ])
+  )
+}
+
+export function getRestoredScores(
+  carried: Record<string, number>,
+  roundScores: Record<string, number>
+): Record<string, number> {
+  const totals = { ...carried }
+  for (const [playerId, score] of Object.entries(roundScores)) {
+    totals[playerId] = (totals[playerId] ?? 0) + score
+  }
+  return totals
+}
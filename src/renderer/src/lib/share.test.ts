@@ -0,0 +1,58 @@
+import { describe, expect, it } from '@jest/globals'
+import { buildEmojiGrid, buildShareText, formatElapsed } from './share'
+import { evaluateGuess } from './utils'
+import type { GameTile } from '../stores/gameStore'
+
+function row(guess: string, solution: string): GameTile[] {
+  const statuses = evaluateGuess(guess, solution)
+  return guess.split('').map((letter, i) => ({ letter, status: statuses[i] }))
+}
+
+const emptyRow: GameTile[] = Array(5).fill({ letter: '', status: 'unused' })
+const solvedBoard = [row('CRANE', 'TRUST'), row('STORY', 'TRUST'), row('TRUST', 'TRUST'), emptyRow]
+
+describe('buildShareText', () => {
+  it('never contains the letters that were played', () => {
+    const text = buildShareText({ board: solvedBoard, mode: 'duel', maxAttempts: 6 })
+    expect(text).not.toMatch(/CRANE|STORY|TRUST/i)
+    expect(text.split('\n\n')[1]).not.toMatch(/[a-z]/i)
+  })
+
+  it('reports solved games with the attempt count and hard mode marker', () => {
+    const text = buildShareText({
+      board: solvedBoard,
+      mode: 'duel',
+      maxAttempts: 6,
+      hardMode: true
+    })
+    expect(text.split('\n')[0]).toBe('Word Duel • Duel • 3/6*')
+  })
+
+  it('marks unsolved games with X and adds the elapsed time', () => {
+    const text = buildShareText({
+      board: [row('CRANE', 'TRUST'), emptyRow],
+      mode: 'battleRoyale',
+      maxAttempts: 2,
+      elapsedMs: 102_000
+    })
+    expect(text).toBe('Word Duel • Battle Royale • X/2 • ⏱ 1:42\n\n⬛🟩⬛⬛⬛')
+  })
+})
+
+describe('buildEmojiGrid', () => {
+  it('skips rows that have not been played', () => {
+    expect(buildEmojiGrid(solvedBoard).split('\n')).toHaveLength(3)
+  })
+
+  it('uses orange and blue in the high contrast theme', () => {
+    expect(buildEmojiGrid([row('STORY', 'TRUST')], 'highContrast')).toBe('🟦🟦⬛🟦⬛')
+    expect(buildEmojiGrid([row('TRUST', 'TRUST')], 'highContrast')).toBe('🟧🟧🟧🟧🟧')
+  })
+})
+
+describe('formatElapsed', () => {
+  it('pads seconds and only shows hours when needed', () => {
+    expect(formatElapsed(5_000)).toBe('0:05')
+    expect(formatElapsed(3_725_000)).toBe('1:02:05')
+  })
+})
@@ -0,0 +1,55 @@
+import type { GameTile, Room } from '../stores/gameStore'
+import { getRevealedRows } from './utils'
+import { GAME_MODES } from './modes'
+
+export type ShareTheme = 'standard' | 'highContrast'
+
+// Only statuses are ever mapped, so the shared text can't give the word away
+const SHARE_EMOJI: Record<ShareTheme, Record<GameTile['status'], string>> = {
+  standard: { correct: '🟩', present: '🟨', absent: '⬛', unused: '⬜' },
+  highContrast: { correct: '🟧', present: '🟦', absent: '⬛', unused: '⬜' }
+}
+
+export interface ShareOptions {
+  board: GameTile[][]
+  mode: Room['mode']
+  maxAttempts: number
+  hardMode?: boolean
+  elapsedMs?: number | null
+  theme?: ShareTheme
+}
+
+export function buildEmojiGrid(board: GameTile[][], theme: ShareTheme = 'standard'): string {
+  return getRevealedRows(board)
+    .map((row) => row.map((tile) => SHARE_EMOJI[theme][tile.status]).join(''))
+    .join('\n')
+}
+
+export function formatElapsed(ms: number): string {
+  const totalSeconds = Math.max(0, Math.floor(ms / 1000))
+  const hours = Math.floor(totalSeconds / 3600)
+  const minutes = Math.floor((totalSeconds % 3600) / 60)
+  const seconds = String(totalSeconds % 60).padStart(2, '0')
+  return hours > 0
+    ? `${hours}:${String(minutes).padStart(2, '0')}:${seconds}`
+    : `${minutes}:${seconds}`
+}
+
+// e.g. "Word Duel • Duel • 4/6* • ⏱ 1:42" followed by the grid; X/6 when unsolved, * for hard mode
+export function buildShareText({
+  board,
+  mode,
+  maxAttempts,
+  hardMode = false,
+  elapsedMs = null,
+  theme = 'standard'
+}: ShareOptions): string {
+  const rows = getRevealedRows(board)
+  const solved = rows.length > 0 && rows[rows.length - 1].every((tile) => tile.status === 'correct')
+  const attempts = `${solved ? rows.length : 'X'}/${maxAttempts}${hardMode ? '*' : ''}`
+
+  const header = ['Word Duel', GAME_MODES[mode].label, attempts]
+  if (elapsedMs !== null) header.push(`⏱ ${formatElapsed(elapsedMs)}`)
+
+  return `${header.join(' • ')}\n\n${buildEmojiGrid(board, theme)}`
+}
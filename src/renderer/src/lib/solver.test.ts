@@ -0,0 +1,89 @@
+import { describe, expect, it } from '@jest/globals'
+import {
+  filterCandidates,
+  getExpectedInformation,
+  getFeedbackPattern,
+  getRemainingAfterEachGuess,
+  rankGuesses
+} from './solver'
+import type { GameTile } from '../stores/gameStore'
+
+function row(guess: string, solution: string): GameTile[] {
+  const pattern = getFeedbackPattern(guess, solution)
+  const statuses = { c: 'correct', p: 'present', a: 'absent' } as const
+  return guess.split('').map((letter, i) => ({
+    letter,
+    status: statuses[pattern[i] as keyof typeof statuses]
+  }))
+}
+
+describe('getExpectedInformation', () => {
+  it('is zero when every candidate gives the same feedback', () => {
+    expect(getExpectedInformation('ZZZZZ', ['CRANE', 'SLATE', 'POINT'])).toBe(0)
+  })
+
+  it('is log2(n) bits when every candidate gives different feedback', () => {
+    const candidates = ['CRANE', 'CRANK', 'PLANE', 'BLOOD']
+    expect(getExpectedInformation('CRANE', candidates)).toBeCloseTo(2)
+  })
+
+  it('is zero with no candidates', () => {
+    expect(getExpectedInformation('CRANE', [])).toBe(0)
+  })
+})
+
+describe('rankGuesses', () => {
+  const candidates = ['BATCH', 'CATCH', 'HATCH', 'LATCH', 'MATCH', 'PATCH', 'WATCH']
+
+  it('orders suggestions by expected information', () => {
+    const suggestions = rankGuesses(candidates, { limit: 10 })
+    const bits = suggestions.map((suggestion) => suggestion.expectedInformation)
+    expect(bits).toEqual([...bits].sort((a, b) => b - a))
+  })
+
+  it('prefers a word that splits the candidates over one of the candidates', () => {
+    const [best] = rankGuesses(candidates)
+    expect(best.expectedInformation).toBeGreaterThan(getExpectedInformation('BATCH', candidates))
+  })
+
+  it('only suggests candidates when asked to', () => {
+    const suggestions = rankGuesses(candidates, { candidatesOnly: true, limit: 10 })
+    expect(suggestions).toHaveLength(candidates.length)
+    expect(suggestions.every((suggestion) => suggestion.isCandidate)).toBe(true)
+  })
+
+  it('puts candidates first when the information is tied', () => {
+    const suggestions = rankGuesses(['CRANE', 'CRATE', 'CRAZE'], { limit: 400 })
+    for (let i = 1; i < suggestions.length; i++) {
+      const [previous, current] = [suggestions[i - 1], suggestions[i]]
+      if (previous.expectedInformation === current.expectedInformation) {
+        expect(Number(previous.isCandidate)).toBeGreaterThanOrEqual(Number(current.isCandidate))
+      }
+    }
+  })
+
+  it('returns the last two candidates as they are', () => {
+    expect(rankGuesses(['CRANE', 'CRATE']).map((suggestion) => suggestion.word)).toEqual([
+      'CRANE',
+      'CRATE'
+    ])
+  })
+
+  it('returns nothing without candidates', () => {
+    expect(rankGuesses([])).toEqual([])
+  })
+})
+
+describe('filterCandidates', () => {
+  it('keeps only words consistent with every revealed row', () => {
+    const rows = [row('CRANE', 'MATCH')]
+    expect(filterCandidates(['MATCH', 'CRANE', 'PATCH', 'SLOTH'], rows)).toEqual(['MATCH', 'PATCH'])
+  })
+
+  it('counts the candidates left after each guess', () => {
+    const rows = [row('CRANE', 'MATCH'), row('PATCH', 'MATCH')]
+    expect(getRemainingAfterEachGuess(['MATCH', 'CRANE', 'PATCH', 'SLOTH'], rows)).toEqual([
+      4, 2, 1
+    ])
+  })
+})
@@ -0,0 +1,126 @@
+import { evaluateGuess } from './utils'
+import { getAnswerWords, isSupportedWordLength } from './dictionary'
+import type { GameTile } from '../stores/gameStore'
+
+export interface GuessSuggestion {
+  word: string
+  // Expected information in bits: how much the feedback should narrow the candidates
+  expectedInformation: number
+  isCandidate: boolean
+}
+
+interface RankOptions {
+  // Only suggest words that could still be the answer (always legal in hard mode)
+  candidatesOnly?: boolean
+  limit?: number
+}
+
+// Scoring every pool word against every candidate is quadratic, so both sides are
+// capped with an even sample. The estimate stays close while hints stay instant.
+const MAX_CANDIDATE_SAMPLE = 300
+const MAX_POOL_SAMPLE = 400
+
+// Compact key for a feedback row, built from the game's own evaluateGuess
+export function getFeedbackPattern(guess: string, solution: string): string {
+  return evaluateGuess(guess, solution)
+    .map((status) => status[0])
+    .join('')
+}
+
+function getRowPattern(row: GameTile[]): string {
+  return row.map((tile) => tile.status[0]).join('')
+}
+
+function getRowWord(row: GameTile[]): string {
+  return row.map((tile) => tile.letter).join('')
+}
+
+// Answers a player could have been chasing; custom words outside the list are added
+// so the final count never drops to zero
+export function getStartingCandidates(solution: string): string[] {
+  if (!isSupportedWordLength(solution.length)) return [solution]
+  const answers = getAnswerWords(solution.length)
+  return answers.includes(solution) ? answers : [...answers, solution]
+}
+
+function isConsistent(candidate: string, row: GameTile[]): boolean {
+  return getFeedbackPattern(getRowWord(row), candidate) === getRowPattern(row)
+}
+
+// Keeps only the words that would have produced exactly the feedback seen so far
+export function filterCandidates(candidates: string[], rows: GameTile[][]): string[] {
+  return candidates.filter((candidate) => rows.every((row) => isConsistent(candidate, row)))
+}
+
+// Candidate count before the first guess and after each revealed row
+export function getRemainingAfterEachGuess(candidates: string[], rows: GameTile[][]): number[] {
+  const counts = [candidates.length]
+  let remaining = candidates
+  for (const row of rows) {
+    remaining = remaining.filter((candidate) => isConsistent(candidate, row))
+    counts.push(remaining.length)
+  }
+  return counts
+}
+
+function sampleEvenly<T>(items: T[], max: number): T[] {
+  if (items.length <= max) return items
+  const step = items.length / max
+  return Array.from({ length: max }, (_, i) => items[Math.floor(i * step)])
+}
+
+export function getExpectedInformation(guess: string, candidates: string[]): number {
+  if (candidates.length === 0) return 0
+
+  const buckets = new Map<string, number>()
+  for (const candidate of candidates) {
+    const pattern = getFeedbackPattern(guess, candidate)
+    buckets.set(pattern, (buckets.get(pattern) || 0) + 1)
+  }
+
+  let entropy = 0
+  for (const count of buckets.values()) {
+    const p = count / candidates.length
+    entropy -= p * Math.log2(p)
+  }
+  return entropy
+}
+
+// Best next guesses first. Ties go to words that could still be the answer.
+export function rankGuesses(candidates: string[], options: RankOptions = {}): GuessSuggestion[] {
+  const { candidatesOnly = false, limit = 5 } = options
+  if (candidates.length === 0) return []
+
+  const candidateSet = new Set(candidates)
+  if (candidates.length <= 2) {
+    return candidates.slice(0, limit).map((word) => ({
+      word,
+      expectedInformation: getExpectedInformation(word, candidates),
+      isCandidate: true
+    }))
+  }
+
+  const sample = sampleEvenly(candidates, MAX_CANDIDATE_SAMPLE)
+  const candidatePool = sampleEvenly(candidates, MAX_POOL_SAMPLE)
+  const pool = candidatesOnly
+    ? candidatePool
+    : [
+        ...new Set([
+          ...candidatePool,
+          ...sampleEvenly(getAnswerWords(candidates[0].length), MAX_POOL_SAMPLE)
+        ])
+      ]
+
+  return pool
+    .map((word) => ({
+      word,
+      expectedInformation: getExpectedInformation(word, sample),
+      isCandidate: candidateSet.has(word)
+    }))
+    .sort((a, b) => {
+      if (b.expectedInformation !== a.expectedInformation)
+        return b.expectedInformation - a.expectedInformation
+      return Number(b.isCandidate) - Number(a.isCandidate)
+    })
+    .slice(0, limit)
+}
@@ -0,0 +1,124 @@
+import { describe, expect, it, jest } from '@jest/globals'
+import type { GameTile, Room } from '../stores/gameStore'
+
+// gameStore reads the game config through apiService, which needs Vite's import.meta.env
+jest.mock('../services/apiService', () => ({
+  apiService: { getGameConfig: () => ({ maxGuessAttempts: 6, gameTimeout: 300000 }) }
+}))
+
+import { createGameRecord, getStatsSummary, parseStats, serializeStats } from './stats'
+import type { GameOutcome, GameRecord } from './stats'
+
+let day = 0
+function game(
+  outcome: GameOutcome,
+  attempts: number,
+  solved = outcome === 'win',
+  timeMs: number | null = null
+): GameRecord {
+  day++
+  return {
+    id: `game-${day}`,
+    playedAt: new Date(Date.UTC(2026, 0, day)).toISOString(),
+    mode: 'duel',
+    outcome,
+    solved,
+    attempts,
+    maxAttempts: 6,
+    wordLength: 5,
+    timeMs,
+    opponents: ['bob']
+  }
+}
+
+describe('getStatsSummary', () => {
+  it('counts the current and longest win streaks in play order', () => {
+    const games = [game('win', 3), game('win', 4), game('win', 2), game('loss', 6), game('win', 5)]
+    const summary = getStatsSummary([...games].reverse())
+    expect(summary).toMatchObject({
+      played: 5,
+      wins: 4,
+      winRate: 80,
+      currentStreak: 1,
+      maxStreak: 3
+    })
+  })
+
+  it('breaks a streak on a draw', () => {
+    const summary = getStatsSummary([game('win', 3), game('draw', 6), game('win', 4)])
+    expect(summary.currentStreak).toBe(1)
+    expect(summary.maxStreak).toBe(1)
+  })
+
+  it('always shows six distribution rows and grows for longer games', () => {
+    expect(getStatsSummary([]).distribution).toEqual([0, 0, 0, 0, 0, 0])
+    expect(getStatsSummary([game('win', 8)]).distribution).toEqual([0, 0, 0, 0, 0, 0, 0, 1])
+  })
+
+  it('only counts solved games in the distribution and average time', () => {
+    const summary = getStatsSummary([
+      game('win', 3, true, 30_000),
+      game('loss', 4, true, 50_000),
+      game('loss', 6, false, 90_000)
+    ])
+    expect(summary.distribution).toEqual([0, 0, 1, 1, 0, 0])
+    expect(summary.averageTimeMs).toBe(40_000)
+  })
+
+  it('has no average time without timed solves', () => {
+    expect(getStatsSummary([game('win', 3)]).averageTimeMs).toBeNull()
+  })
+})
+
+describe('createGameRecord', () => {
+  const room: Room = {
+    code: 'ABCD',
+    hostId: 'socket-a',
+    players: [
+      { id: 'socket-a', username: 'alice', playerId: 'player-a', score: 0 },
+      { id: 'socket-b', username: 'bob', playerId: 'player-b', score: 0 }
+    ],
+    solutionWord: 'TRUST',
+    status: 'finished',
+    mode: 'duel',
+    maxPlayers: 2
+  }
+  const board: GameTile[][] = [
+    'CRANE'.split('').map((letter) => ({ letter, status: 'absent' })),
+    'TRUST'.split('').map((letter) => ({ letter, status: 'correct' }))
+  ]
+
+  it('records a win however the winner is named', () => {
+    expect(createGameRecord(room, 'socket-a', board, 'player-a', 1000).outcome).toBe('win')
+    expect(createGameRecord(room, 'socket-a', board, 'socket-a', 1000).outcome).toBe('win')
+    expect(createGameRecord(room, 'socket-a', board, 'bob', 1000).outcome).toBe('loss')
+    expect(createGameRecord(room, 'socket-a', board, null, 1000).outcome).toBe('draw')
+  })
+
+  it('reads attempts and the solve from the board', () => {
+    const record = createGameRecord(room, 'socket-a', board, 'alice', 1000)
+    expect(record).toMatchObject({ solved: true, attempts: 2, maxAttempts: 6, opponents: ['bob'] })
+  })
+
+  it('finds the player by id even when usernames repeat', () => {
+    const twins = {
+      ...room,
+      players: room.players.map((player) => ({ ...player, username: 'alex' }))
+    }
+    const record = createGameRecord(twins, 'player-b', board, 'socket-b', 1000)
+    expect(record).toMatchObject({ outcome: 'win', opponents: ['alex'] })
+  })
+})
+
+describe('parseStats', () => {
+  it('reads back what serializeStats wrote', () => {
+    const games = [game('win', 3)]
+    expect(parseStats(serializeStats(games))).toEqual(games)
+  })
+
+  it('rejects files from another format version', () => {
+    expect(() => parseStats(JSON.stringify({ version: 2, games: [] }))).toThrow(
+      'Unsupported stats version: 2'
+    )
+  })
+})
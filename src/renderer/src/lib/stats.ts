@@ -0,0 +1,133 @@
+import { getRoomMaxAttempts, getRoomWordLength, getRoomGameKey } from '../stores/gameStore'
+import type { GameMode, GameTile, Room } from '../stores/gameStore'
+import { getRevealedRows } from './utils'
+import { isWinner } from './winner'
+import { findPlayer } from './playerId'
+
+export const STATS_FORMAT_VERSION = 1
+
+// The classic histogram always shows at least rows 1-6, more if a room allowed extra attempts
+const MIN_DISTRIBUTION_ROWS = 6
+
+export type GameOutcome = 'win' | 'loss' | 'draw'
+
+// One finished game from this player's point of view
+export interface GameRecord {
+  // Same key as the rating update, so a repeated game-over isn't counted twice
+  id: string
+  playedAt: string
+  mode: GameMode
+  outcome: GameOutcome
+  // Whether the word was found, which a loss on time or to a faster opponent can still have
+  solved: boolean
+  attempts: number
+  maxAttempts: number
+  wordLength: number
+  // Milliseconds from the game start until it ended
+  timeMs: number | null
+  opponents: string[]
+}
+
+export interface StatsSummary {
+  played: number
+  wins: number
+  winRate: number
+  currentStreak: number
+  maxStreak: number
+  // distribution[n - 1] is how many games were solved in n attempts
+  distribution: number[]
+  averageTimeMs: number | null
+}
+
+interface StatsFile {
+  version: number
+  games: GameRecord[]
+}
+
+export function createGameRecord(
+  room: Room,
+  playerId: string,
+  board: GameTile[][],
+  winner: string | null,
+  timeMs: number | null
+): GameRecord {
+  const rows = getRevealedRows(board)
+  const self = findPlayer(room.players, playerId) ?? { id: playerId, username: '' }
+  return {
+    id: getRoomGameKey(room),
+    playedAt: new Date().toISOString(),
+    mode: room.mode,
+    outcome: isWinner(self, winner) ? 'win' : winner ? 'loss' : 'draw',
+    solved: rows.length > 0 && rows[rows.length - 1].every((tile) => tile.status === 'correct'),
+    attempts: rows.length,
+    maxAttempts: getRoomMaxAttempts(room),
+    wordLength: getRoomWordLength(room),
+    timeMs,
+    opponents: room.players
+      .filter((player) => player.id !== self.id)
+      .map((player) => player.username)
+  }
+}
+
+export function getStatsSummary(games: GameRecord[]): StatsSummary {
+  const ordered = [...games].sort((a, b) => a.playedAt.localeCompare(b.playedAt))
+  const wins = ordered.filter((game) => game.outcome === 'win').length
+
+  // Draws break a streak like losses do
+  let currentStreak = 0
+  let maxStreak = 0
+  for (const game of ordered) {
+    currentStreak = game.outcome === 'win' ? currentStreak + 1 : 0
+    maxStreak = Math.max(maxStreak, currentStreak)
+  }
+
+  const rows = Math.max(
+    MIN_DISTRIBUTION_ROWS,
+    ...ordered.filter((game) => game.solved).map((game) => game.attempts)
+  )
+  const distribution = Array.from({ length: rows }, () => 0)
+  for (const game of ordered) {
+    if (game.solved && game.attempts > 0) distribution[game.attempts - 1]++
+  }
+
+  const timed = ordered.filter((game) => game.solved && game.timeMs !== null)
+  const averageTimeMs =
+    timed.length > 0
+      ? timed.reduce((sum, game) => sum + (game.timeMs ?? 0), 0) / timed.length
+      : null
+
+  return {
+    played: ordered.length,
+    wins,
+    winRate: ordered.length > 0 ? (wins / ordered.length) * 100 : 0,
+    currentStreak,
+    maxStreak,
+    distribution,
+    averageTimeMs
+  }
+}
+
+export function serializeStats(games: GameRecord[]): string {
+  const file: StatsFile = { version: STATS_FORMAT_VERSION, games }
+  return JSON.stringify(file, null, 2)
+}
+
+export function parseStats(contents: string): GameRecord[] {
+  const data = JSON.parse(contents) as Partial<StatsFile>
+  if (data.version !== STATS_FORMAT_VERSION || !Array.isArray(data.games)) {
+    throw new Error(`Unsupported stats version: ${data.version ?? 'missing'}`)
+  }
+  return data.games
+}
+
+// Kept in the user data folder via the Electron main process; the browser build has none
+export async function loadGameRecords(): Promise<GameRecord[]> {
+  if (!window.api?.readStore) return []
+  const contents = await window.api.readStore('stats')
+  return contents === null ? [] : parseStats(contents)
+}
+
+export async function saveGameRecords(games: GameRecord[]): Promise<void> {
+  if (!window.api?.writeStore) return
+  await window.api.writeStore('stats', serializeStats(games))
+}
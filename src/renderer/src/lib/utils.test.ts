@@ -0,0 +1,40 @@
+import { describe, expect, it } from '@jest/globals'
+import { evaluateGuess, getHardModeViolation } from './utils'
+import type { GameTile } from '../stores/gameStore'
+
+function row(guess: string, solution: string): GameTile[] {
+  const statuses = evaluateGuess(guess, solution)
+  return guess.split('').map((letter, i) => ({ letter, status: statuses[i] }))
+}
+
+const emptyRow: GameTile[] = Array(5).fill({ letter: '', status: 'unused' })
+
+describe('getHardModeViolation', () => {
+  it('allows anything before the first guess', () => {
+    expect(getHardModeViolation('ZZZZZ', [emptyRow, emptyRow])).toBeNull()
+  })
+
+  it('keeps revealed greens in place', () => {
+    const board = [row('CRANE', 'CRUST'), emptyRow]
+    expect(getHardModeViolation('TRUST', board)).toBe('1st letter must be C')
+    expect(getHardModeViolation('CLOTH', board)).toBe('2nd letter must be R')
+    expect(getHardModeViolation('CRUST', board)).toBeNull()
+  })
+
+  it('requires revealed yellows to be reused', () => {
+    const board = [row('STARE', 'TRUST')]
+    expect(getHardModeViolation('TOTAL', board)).toBe('Guess must contain S')
+    expect(getHardModeViolation('SHORT', board)).toBeNull()
+    expect(getHardModeViolation('SOUTH', board)).toBe('Guess must contain R')
+  })
+
+  it('counts repeated letters', () => {
+    const board = [row('TATTY', 'STOUT')]
+    expect(getHardModeViolation('TOAST', board)).toBeNull()
+    expect(getHardModeViolation('TOXIC', board)).toBe('Guess must contain T')
+  })
+
+  it('ignores case in the guess', () => {
+    expect(getHardModeViolation('crust', [row('CRANE', 'CRUST')])).toBeNull()
+  })
+})
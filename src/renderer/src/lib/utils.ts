@@ -1,5 +1,6 @@
 import { clsx, type ClassValue } from "clsx"
 import { twMerge } from "tailwind-merge"
+import type { GameTile } from '../stores/gameStore'
 
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
@@ -12,7 +13,7 @@ export function evaluateGuess(guess: string, solution: string): ('correct' | 'pr
   const guessArray = guess.split('')
   
   // First pass: mark correct letters
-  for (let i = 0; i < 5; i++) {
+  for (let i = 0; i < guessArray.length; i++) {
     if (guessArray[i] === solutionArray[i]) {
       evaluation[i] = 'correct'
       solutionArray[i] = '' // Mark as used
@@ -20,7 +21,7 @@ export function evaluateGuess(guess: string, solution: string): ('correct' | 'pr
   }
   
   // Second pass: mark present and absent letters
-  for (let i = 0; i < 5; i++) {
+  for (let i = 0; i < guessArray.length; i++) {
     if (evaluation[i] === 'correct') continue
     
     const letterIndex = solutionArray.indexOf(guessArray[i])
@@ -35,8 +36,55 @@ export function evaluateGuess(guess: string, solution: string): ('correct' | 'pr
   return evaluation
 }
 
-export function isValidWord(word: string): boolean {
-  return word.length === 5 && /^[A-Za-z]{5}$/.test(word)
+function ordinal(n: number): string {
+  const suffixes = ['th', 'st', 'nd', 'rd']
+  const v = n % 100
+  return n + (suffixes[(v - 20) % 10] || suffixes[v] || suffixes[0])
+}
+
+// Rows that already carry feedback, in the order they were played
+export function getRevealedRows(board: GameTile[][]): GameTile[][] {
+  return board.filter(
+    (row) => row.length > 0 && row.every((tile) => tile.letter !== '' && tile.status !== 'unused')
+  )
+}
+
+// Hard mode: every revealed green must stay in place and every revealed
+// yellow must be reused. Returns a message for the first broken rule, or null.
+export function getHardModeViolation(guess: string, board: GameTile[][]): string | null {
+  const guessArray = guess.toUpperCase().split('')
+  const revealedRows = getRevealedRows(board)
+  const requiredCounts: Record<string, number> = {}
+
+  for (const row of revealedRows) {
+    const rowCounts: Record<string, number> = {}
+
+    for (let i = 0; i < row.length; i++) {
+      const tile = row[i]
+      if (tile.status === 'correct' && guessArray[i] !== tile.letter) {
+        return `${ordinal(i + 1)} letter must be ${tile.letter}`
+      }
+      if (tile.status === 'correct' || tile.status === 'present') {
+        rowCounts[tile.letter] = (rowCounts[tile.letter] || 0) + 1
+      }
+    }
+
+    for (const [letter, count] of Object.entries(rowCounts)) {
+      requiredCounts[letter] = Math.max(requiredCounts[letter] || 0, count)
+    }
+  }
+
+  for (const [letter, count] of Object.entries(requiredCounts)) {
+    if (guessArray.filter((l) => l === letter).length < count) {
+      return `Guess must contain ${letter}`
+    }
+  }
+
+  return null
+}
+
+export function isValidWord(word: string, length: number = 5): boolean {
+  return word.length === length && /^[A-Za-z]+$/.test(word)
 }
 
 export function generateRoomCode(): string {
@@ -0,0 +1,14 @@
+import type { Player } from '../stores/gameStore'
+
+// game-over may name the winner by socket id, stable player id or username, depending on the server
+export function isWinner(
+  player: Pick<Player, 'id' | 'username' | 'playerId'>,
+  winner: string | null
+): boolean {
+  if (!winner) return false
+  return player.id === winner || player.playerId === winner || player.username === winner
+}
+
+export function findWinner(players: Player[], winner: string | null): Player | undefined {
+  return players.find((player) => isWinner(player, winner))
+}
@@ -1,8 +1,15 @@
 import { createRootRoute, Link, Outlet } from '@tanstack/react-router'
 import { TanStackRouterDevtools } from '@tanstack/react-router-devtools'
+import { useSessionResume } from '../hooks/useSessionResume'
 
 export const Route = createRootRoute({
-  component: () => (
+  component: RootLayout
+})
+
+function RootLayout() {
+  useSessionResume()
+
+  return (
     <>
       <nav className="bg-[#f4f4f1] border-b border-gray-200 px-4 py-2">
         <div className="flex gap-4 justify-center">
@@ -19,6 +26,24 @@ export const Route = createRootRoute({
             Lobby
           </Link>
           <Link 
+            to="/practice"
+            className="px-4 py-2 rounded-lg hover:bg-gray-200 transition-colors [&.active]:bg-black [&.active]:text-white"
+          >
+            Practice
+          </Link>
+          <Link
+            to="/daily"
+            className="px-4 py-2 rounded-lg hover:bg-gray-200 transition-colors [&.active]:bg-black [&.active]:text-white"
+          >
+            Daily
+          </Link>
+          <Link
+            to="/stats"
+            className="px-4 py-2 rounded-lg hover:bg-gray-200 transition-colors [&.active]:bg-black [&.active]:text-white"
+          >
+            Stats
+          </Link>
+          <Link
             to="/about" 
             className="px-4 py-2 rounded-lg hover:bg-gray-200 transition-colors [&.active]:bg-black [&.active]:text-white"
           >
@@ -30,4 +55,4 @@ export const Route = createRootRoute({
       <TanStackRouterDevtools />
     </>
   )
-})
+}
@@ -0,0 +1,126 @@
+import { createFileRoute, useNavigate } from '@tanstack/react-router'
+import { useEffect, useState } from 'react'
+import { motion } from 'framer-motion'
+import dayjs from 'dayjs'
+import { GameBoard } from '../components/GameBoard'
+import { Keyboard } from '../components/Keyboard'
+import { CurrentGuess } from '../components/CurrentGuess'
+import { useLocalGame } from '../hooks/useLocalGame'
+import { usePhysicalKeyboard } from '../hooks/usePhysicalKeyboard'
+import {
+  DAILY_MAX_ATTEMPTS,
+  getDailySolution,
+  getDayNumber,
+  loadDailyProgress,
+  saveDailyProgress
+} from '../lib/daily'
+
+export const Route = createFileRoute('/daily')({
+  component: DailyPage
+})
+
+function DailyPage() {
+  const navigate = useNavigate()
+  // Fixed for the lifetime of the page so a midnight rollover can't swap the word mid-game
+  const [dayNumber] = useState(() => getDayNumber())
+  const [savedProgress] = useState(() => loadDailyProgress(dayNumber))
+  const solution = getDailySolution(dayNumber)
+
+  const game = useLocalGame({
+    solution,
+    maxAttempts: DAILY_MAX_ATTEMPTS,
+    initialGuesses: savedProgress.guesses
+  })
+
+  useEffect(() => {
+    saveDailyProgress({ dayNumber, guesses: game.guesses })
+  }, [dayNumber, game.guesses])
+
+  usePhysicalKeyboard({
+    enabled: game.status === 'playing',
+    onKeyPress: game.handleKeyPress,
+    onPaste: game.handlePaste
+  })
+
+  return (
+    <div className="min-h-screen bg-[#f4f4f1] text-black font-serif p-4">
+      <div className="max-w-4xl mx-auto">
+        {/* Header */}
+        <motion.div
+          initial={{ opacity: 0, y: -20 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="text-center mb-6"
+        >
+          <h1 className="text-4xl font-black mb-2">📅 Daily Puzzle</h1>
+          <p className="text-gray-600">
+            No. {dayNumber} • {dayjs().format('MMMM D, YYYY')}
+          </p>
+          <p className="text-sm text-gray-500 mt-1">One word for everyone, one attempt per day</p>
+        </motion.div>
+
+        {/* Message */}
+        {game.message && (
+          <motion.div
+            initial={{ opacity: 0, scale: 0.9 }}
+            animate={{ opacity: 1, scale: 1 }}
+            className="max-w-md mx-auto bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded mb-6 text-center"
+          >
+            {game.message}
+          </motion.div>
+        )}
+
+        {/* Game Board */}
+        <div className="mb-8">
+          <GameBoard board={game.board} />
+        </div>
+
+        {game.status === 'playing' ? (
+          <>
+            {/* Current Guess Display */}
+            <div className="text-center mb-8">
+              <CurrentGuess
+                guess={game.currentGuess}
+                wordLength={solution.length}
+                isShaking={game.isShaking}
+                onShakeComplete={game.clearShake}
+              />
+              <p className="text-gray-600">Type or paste your guess and press Enter</p>
+            </div>
+
+            {/* Virtual Keyboard */}
+            <Keyboard onKeyPress={game.handleKeyPress} letterStatuses={game.letterStatuses} />
+          </>
+        ) : (
+          <motion.div
+            initial={{ opacity: 0, scale: 0.9 }}
+            animate={{ opacity: 1, scale: 1 }}
+            className="max-w-md mx-auto bg-white rounded-lg shadow-md p-8 text-center"
+          >
+            <h2 className="text-3xl font-bold mb-4">
+              {game.status === 'won' ? (
+                <span className="text-green-600">
+                  🎉 Solved in {game.guesses.length}/{DAILY_MAX_ATTEMPTS}!
+                </span>
+              ) : (
+                <span className="text-gray-600">Better luck tomorrow</span>
+              )}
+            </h2>
+            <p className="text-lg text-gray-600 mb-2">Today&apos;s word was:</p>
+            <p className="text-2xl font-bold text-[#1a1a1a] mb-6">{solution}</p>
+            <p className="text-sm text-gray-500">Puzzle No. {dayNumber + 1} unlocks at midnight.</p>
+          </motion.div>
+        )}
+
+        {/* Back Button */}
+        <div className="text-center mt-8">
+          <button
+            onClick={() => navigate({ to: '/' })}
+            className="px-6 py-3 border border-gray-300 text-gray-700 rounded-lg font-semibold hover:bg-gray-50 transition-colors"
+          >
+            Back to Home
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
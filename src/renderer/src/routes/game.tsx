@@ -1,11 +1,42 @@
 import { createFileRoute, useNavigate } from '@tanstack/react-router'
-import { useState, useEffect } from 'react'
+import { useState, useEffect, useCallback, useRef } from 'react'
 import { motion } from 'framer-motion'
-import { useGameStore } from '../stores/gameStore'
+import {
+  useGameStore,
+  getRoomWordLength,
+  getRoomMaxAttempts,
+  getRoomTimeLimit,
+  getRoomGameKey,
+  DEFAULT_ROOM_SETTINGS
+} from '../stores/gameStore'
+import { useReplayStore } from '../stores/replayStore'
+import { useRatingStore } from '../stores/ratingStore'
+import { useStatsStore } from '../stores/statsStore'
 import { socketService } from '../services/socketService'
 import { GameBoard } from '../components/GameBoard'
 import { Keyboard } from '../components/Keyboard'
-import { GameTimer } from '../components/GameTimer'
+import { GameTimer, ChessClockTimer } from '../components/GameTimer'
+import { CurrentGuess } from '../components/CurrentGuess'
+import { Scoreboard } from '../components/Scoreboard'
+import { RoundIntermission } from '../components/RoundIntermission'
+import { getHardModeViolation, getRevealedRows } from '../lib/utils'
+import { getRandomAnswer, isAnswerWord, isDictionaryWord } from '../lib/dictionary'
+import { getRoundStandings, rankRoundResults, ROUND_INTERMISSION_SECONDS } from '../lib/rounds'
+import { createChessClock } from '../lib/chessClock'
+import { getScoredPlayers } from '../lib/scoring'
+import { isHeadToHead } from '../lib/modes'
+import { findLocalPlayer, findPlayer, getLocalPlayerId } from '../lib/playerId'
+import { createGameRecord } from '../lib/stats'
+import {
+  addSeriesWin,
+  formatSeriesScore,
+  getGameResults,
+  getSeriesLength,
+  getWinsNeeded,
+  isSeries,
+  SERIES_INTERMISSION_SECONDS
+} from '../lib/series'
+import { usePhysicalKeyboard } from '../hooks/usePhysicalKeyboard'
 
 export const Route = createFileRoute('/game')({
   component: GamePage
@@ -17,19 +48,85 @@ function GamePage() {
     currentRoom,
     currentPlayer,
     gameBoard,
+    playerBoards,
     currentGuess,
     gameStatus,
+    isHost,
+    eliminatedPlayers,
+    roundStandings,
+    gameStartedAt,
+    chessClock,
+    playerScores,
+    winner,
+    setCurrentRoom,
     updateGameBoard,
+    updatePlayerBoard,
     setCurrentGuess,
-    setGameStatus
+    setGameStatus,
+    setRevealedSolution,
+    eliminatePlayer,
+    setRoundStandings,
+    startNextRound,
+    setChessClock,
+    passChessClockTurn
   } = useGameStore()
+  const { recordGuess, recordElimination, recordGameOver } = useReplayStore()
+  const recordDuel = useRatingStore((state) => state.recordDuel)
+  const recordGame = useStatsStore((state) => state.recordGame)
 
   const [error, setError] = useState('')
   const [isConnected, setIsConnected] = useState(false)
   const [gameStarted, setGameStarted] = useState(false)
+  const [isShaking, setIsShaking] = useState(false)
+  // Round whose clock ran out for this player; rounds reset it by moving on
+  const [timedOutRound, setTimedOutRound] = useState<number | null>(null)
+  const [flaggedPlayerId, setFlaggedPlayerId] = useState<string | null>(null)
+
+  const wordLength = getRoomWordLength(currentRoom)
+  const maxAttempts = getRoomMaxAttempts(currentRoom)
+  const roundNumber = currentRoom?.roundNumber ?? 1
+  const isBattleRoyale = currentRoom?.mode === 'battleRoyale'
+  const isSeriesGame = isSeries(currentRoom)
+
+  // A player is out of this round once they solve it or run out of attempts
+  const revealedRows = getRevealedRows(gameBoard)
+  const hasSolved =
+    revealedRows.length > 0 &&
+    revealedRows[revealedRows.length - 1].every((tile) => tile.status === 'correct')
+  const hasFinishedRound = hasSolved || revealedRows.length >= maxAttempts
+  const currentPlayerId = currentRoom
+    ? findLocalPlayer(currentRoom.players, currentPlayer)?.id
+    : undefined
+  const isEliminated = !!currentPlayerId && eliminatedPlayers.includes(currentPlayerId)
+  const isTimedOut = timedOutRound === roundNumber
+  const isChessClock = currentRoom?.mode === 'chessClock'
+  const isMyTurn = !isChessClock || (!!chessClock && chessClock.activePlayerId === currentPlayerId)
+  const isFlagged = isChessClock && flaggedPlayerId !== null
+  const canGuess =
+    !hasFinishedRound && !isEliminated && !isTimedOut && !roundStandings && isMyTurn && !isFlagged
+
+  // Chess clock: both banks start full and the host moves first
+  useEffect(() => {
+    if (!isChessClock || chessClock || !currentRoom || gameStatus !== 'playing') return
+
+    const startedAt = currentRoom.gameStartTime
+      ? new Date(currentRoom.gameStartTime).getTime()
+      : socketService.now()
+    const host = currentRoom.players.find((player) => player.id === currentRoom.hostId)
+    setChessClock(
+      createChessClock(
+        currentRoom.players.map((player) => player.id),
+        currentRoom.clockTime ?? DEFAULT_ROOM_SETTINGS.clockTime,
+        host?.id ?? currentRoom.players[0]?.id ?? null,
+        startedAt
+      )
+    )
+  }, [isChessClock, chessClock, currentRoom, gameStatus, setChessClock])
 
   useEffect(() => {
     if (!currentRoom || gameStatus !== 'playing') {
+      // A saved session is being rejoined from the root; its snapshot decides where we end up
+      if (!currentRoom && socketService.getSavedSession()) return
       navigate({ to: '/lobby' })
       return
     }
@@ -50,68 +147,326 @@ function GamePage() {
     connectToGame()
 
     // Listen for game updates
-    socketService.onGuessSubmitted((data) => {
-      if (data.roomCode === currentRoom.code) {
-        // Update game board with new guess
-        const newBoard = [...gameBoard]
-        if (data.attemptNumber < newBoard.length) {
-          newBoard[data.attemptNumber] = data.boardState.map(tile => ({
-            letter: tile.letter,
-            status: tile.status
-          }))
+    const offGuessSubmitted = socketService.onGuessSubmitted((data) => {
+      // Guesses are broadcast to the whole room; one that doesn't say whose it is can't be placed
+      const guesser =
+        data.roomCode === currentRoom.code && data.username
+          ? findPlayer(currentRoom.players, data.playerId, data.username)
+          : undefined
+      if (guesser) {
+        const tiles = data.boardState.map((tile) => ({
+          letter: tile.letter,
+          status: tile.status
+        }))
+        recordGuess(data.username, data.attemptNumber, tiles)
+
+        // Both are on the server's clock, so every client scores the guess the same way
+        const submittedAt = data.submittedAt ?? socketService.now()
+        const timeMs = currentRoom.gameStartTime
+          ? submittedAt - new Date(currentRoom.gameStartTime).getTime()
+          : null
+        updatePlayerBoard(guesser.id, data.attemptNumber, tiles, timeMs)
+
+        // Chess clock: a guess ends that player's turn
+        passChessClockTurn(guesser.id, submittedAt)
+
+        // Other players' rows live in playerBoards only; our own board drives the keyboard
+        if (guesser.id === currentPlayerId && data.attemptNumber < gameBoard.length) {
+          const newBoard = [...gameBoard]
+          newBoard[data.attemptNumber] = tiles
           updateGameBoard(newBoard)
         }
       }
     })
 
+    // Listen for eliminations
+    const offPlayerEliminated = socketService.onPlayerEliminated((data) => {
+      if (data.roomCode === currentRoom.code) {
+        if (data.playerId) eliminatePlayer(data.playerId)
+        if (data.username) recordElimination(data.username)
+      }
+    })
+
+    // Battle Royale: every client ranks the round the same way from the server's results
+    const offRoundOver = socketService.onRoundOver((data) => {
+      if (data.roomCode === currentRoom.code) {
+        const standings = getRoundStandings(
+          data.results,
+          currentRoom.eliminationRule ?? DEFAULT_ROOM_SETTINGS.eliminationRule,
+          getRoomMaxAttempts(currentRoom)
+        )
+        standings
+          .filter((standing) => standing.eliminated)
+          .forEach((standing) => {
+            eliminatePlayer(standing.playerId)
+            recordElimination(standing.username)
+          })
+        setRoundStandings(standings)
+      }
+    })
+
+    const offRoundStarted = socketService.onRoundStarted((data) => {
+      if (data.roomCode === currentRoom.code) {
+        if (data.room) setCurrentRoom(data.room)
+        startNextRound(data.roundNumber)
+      }
+    })
+
     // Listen for game over
-    socketService.onGameOver((data) => {
+    const offGameOver = socketService.onGameOver((data) => {
       if (data.roomCode === currentRoom.code) {
+        recordGameOver(data.winner ?? null, data.solution ?? currentRoom.solutionWord)
+
+        if (currentPlayerId) {
+          const timeMs = currentRoom.gameStartTime
+            ? socketService.now() - new Date(currentRoom.gameStartTime).getTime()
+            : null
+          recordGame(
+            createGameRecord(
+              currentRoom,
+              currentPlayerId,
+              playerBoards[currentPlayerId] ?? gameBoard,
+              data.winner ?? null,
+              timeMs
+            )
+          )
+        }
+
+        // Every head-to-head game is rated, including each game of a series
+        // The server may not echo our own id back, but we always know it
+        const [first, second] = currentRoom.players.map((player) =>
+          player.id === currentPlayerId && !player.playerId
+            ? { ...player, playerId: getLocalPlayerId() }
+            : player
+        )
+        if (isHeadToHead(currentRoom.mode) && first && second && currentRoom.players.length === 2) {
+          recordDuel(getRoomGameKey(currentRoom), [first, second], data.winner ?? null)
+        }
+
+        // Mid-series games go to an intermission instead of the results page
+        if (isSeries(currentRoom)) {
+          const seriesRoom = {
+            ...currentRoom,
+            seriesScore: addSeriesWin(
+              currentRoom.seriesScore,
+              currentRoom.players,
+              data.winner ?? null
+            )
+          }
+          setCurrentRoom(seriesRoom)
+
+          const winsNeeded = getWinsNeeded(getSeriesLength(seriesRoom))
+          const isClinched = Object.values(seriesRoom.seriesScore).some(
+            (wins) => wins >= winsNeeded
+          )
+          if (!isClinched) {
+            setRoundStandings(
+              rankRoundResults(
+                data.results ??
+                  getGameResults(
+                    currentRoom.players,
+                    data.winner ?? null,
+                    currentPlayerId
+                      ? { ...playerBoards, [currentPlayerId]: gameBoard }
+                      : playerBoards
+                  ),
+                getRoomMaxAttempts(currentRoom)
+              )
+            )
+            return
+          }
+        }
+
         setGameStatus('finished')
+        setRevealedSolution(data.solution ?? currentRoom.solutionWord)
         navigate({ to: '/results' })
       }
     })
 
+    // Malformed messages are dropped rather than applied, so a board may be missing a guess
+    const offProtocolError = socketService.onProtocolError(() => {
+      setError('Received an unreadable update from the server.')
+    })
+
+    // The socket stays open between pages so the session survives; only these listeners go
     return () => {
-      socketService.disconnect()
+      offGuessSubmitted()
+      offPlayerEliminated()
+      offRoundOver()
+      offRoundStarted()
+      offGameOver()
+      offProtocolError()
     }
-  }, [currentRoom, gameStatus, navigate, gameBoard, updateGameBoard, setGameStatus])
+  }, [
+    currentRoom,
+    currentPlayerId,
+    gameStatus,
+    navigate,
+    gameBoard,
+    playerBoards,
+    updateGameBoard,
+    updatePlayerBoard,
+    setGameStatus,
+    setRevealedSolution,
+    setCurrentRoom,
+    eliminatePlayer,
+    setRoundStandings,
+    startNextRound,
+    passChessClockTurn,
+    recordGuess,
+    recordElimination,
+    recordGameOver,
+    recordDuel,
+    recordGame
+  ])
+
+  // Only the host advances rounds; the ref stops a re-rendered countdown from sending twice
+  const continuedRoundRef = useRef<number | null>(null)
+  const handleRoundContinue = useCallback(() => {
+    if (!isHost || !currentRoom || !roundStandings || continuedRoundRef.current === roundNumber)
+      return
+    continuedRoundRef.current = roundNumber
+
+    socketService
+      .nextRound(currentRoom.code, {
+        roundNumber: roundNumber + 1,
+        customWord: getRandomAnswer(getRoomWordLength(currentRoom)),
+        eliminatedPlayerIds: roundStandings
+          .filter((standing) => standing.eliminated)
+          .map((standing) => standing.playerId),
+        seriesScore: currentRoom.seriesScore
+      })
+      .catch((error) => {
+        console.error('Failed to start next round:', error)
+        continuedRoundRef.current = null
+        setError('Failed to start the next round. Please try again.')
+      })
+  }, [isHost, currentRoom, roundStandings, roundNumber])
+
+  const handleTimeUp = () => {
+    if (!currentRoom || !currentPlayer || hasFinishedRound || isEliminated || isTimedOut) return
+
+    setTimedOutRound(roundNumber)
+    setCurrentGuess('')
+    socketService
+      .reportTimeUp(currentRoom.code, currentPlayer, revealedRows.length)
+      .catch((error) => {
+        console.error('Failed to report time up:', error)
+        setError('Failed to reach the server after time ran out.')
+      })
+  }
+
+  const handleFlag = (playerId: string) => {
+    setFlaggedPlayerId(playerId)
+    if (playerId !== currentPlayerId || !currentRoom || !currentPlayer) return
+
+    setCurrentGuess('')
+    socketService.reportFlag(currentRoom.code, currentPlayer).catch((error) => {
+      console.error('Failed to report flag:', error)
+      setError('Failed to reach the server after your clock ran out.')
+    })
+  }
 
   const handleKeyPress = (key: string) => {
-    if (gameStatus !== 'playing' || !gameStarted) return
+    if (gameStatus !== 'playing' || !gameStarted || !canGuess) return
 
     if (key === 'ENTER') {
       submitGuess()
     } else if (key === 'BACKSPACE') {
       setCurrentGuess(currentGuess.slice(0, -1))
-    } else if (key.length === 1 && currentGuess.length < 5) {
+    } else if (key.length === 1 && currentGuess.length < wordLength) {
       setCurrentGuess(currentGuess + key.toUpperCase())
     }
   }
 
   const submitGuess = async () => {
-    if (currentGuess.length !== 5 || !currentRoom || !currentPlayer) return
+    if (currentGuess.length !== wordLength || !currentRoom || !currentPlayer) return
+
+    // Unknown words never reach the server
+    const isKnownWord = currentRoom.strictGuesses
+      ? isAnswerWord(currentGuess)
+      : isDictionaryWord(currentGuess)
+    if (!isKnownWord) {
+      setError('Not in word list')
+      setIsShaking(true)
+      return
+    }
+
+    if (currentRoom.hardMode) {
+      const violation = getHardModeViolation(currentGuess, gameBoard)
+      if (violation) {
+        setError(violation)
+        return
+      }
+    }
 
     try {
       const attemptNumber = gameBoard.findIndex(row => row.every(tile => tile.letter === ''))
-      if (attemptNumber === -1) return
+      if (attemptNumber === -1 || attemptNumber >= maxAttempts) {
+        setError('No attempts left')
+        return
+      }
 
       await socketService.submitGuess(
         currentRoom.code,
         currentPlayer,
         currentGuess,
         gameBoard.map(row => row.map(tile => tile.letter)),
-        attemptNumber
+        attemptNumber,
+        getLocalPlayerId()
       )
 
       // Clear current guess
       setCurrentGuess('')
+      setError('')
     } catch (error) {
       console.error('Failed to submit guess:', error)
       setError('Failed to submit guess. Please try again.')
     }
   }
 
+  const handlePaste = (text: string) => {
+    if (gameStatus !== 'playing' || !gameStarted || !canGuess) return
+
+    const word = text.trim().toUpperCase()
+    if (word.length === wordLength && /^[A-Z]+$/.test(word)) {
+      setCurrentGuess(word)
+    }
+  }
+
+  // Real keyboard and clipboard input, active only while the game is running
+  usePhysicalKeyboard({
+    enabled: gameStatus === 'playing' && gameStarted && canGuess,
+    onKeyPress: handleKeyPress,
+    onPaste: handlePaste
+  })
+
+  const handleLeaveGame = () => {
+    if (currentRoom) socketService.leaveRoom(currentRoom.code)
+    navigate({ to: '/lobby' })
+  }
+
+  if (!currentRoom && socketService.getSavedSession()) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 flex items-center justify-center">
+        <div className="text-center">
+          <div className="text-6xl mb-4">🔄</div>
+          <h1 className="text-2xl font-bold text-gray-800 mb-4">Reconnecting...</h1>
+          <p className="text-gray-600 mb-6">Getting you back into your game.</p>
+          <button
+            onClick={() => {
+              socketService.endSession()
+              navigate({ to: '/lobby' })
+            }}
+            className="px-6 py-3 bg-blue-600 text-white rounded-lg font-semibold hover:bg-blue-700 transition-colors"
+          >
+            Back to Lobby
+          </button>
+        </div>
+      </div>
+    )
+  }
+
   if (!currentRoom || gameStatus !== 'playing') {
     return (
       <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 flex items-center justify-center">
@@ -120,7 +475,7 @@ function GamePage() {
           <h1 className="text-2xl font-bold text-gray-800 mb-4">Game Not Ready</h1>
           <p className="text-gray-600 mb-6">Please wait for the game to start or return to the lobby.</p>
           <button
-            onClick={() => navigate({ to: '/lobby' })}
+            onClick={handleLeaveGame}
             className="px-6 py-3 bg-blue-600 text-white rounded-lg font-semibold hover:bg-blue-700 transition-colors"
           >
             Back to Lobby
@@ -140,7 +495,15 @@ function GamePage() {
           className="text-center mb-8"
         >
           <h1 className="text-4xl font-bold text-gray-800 mb-2">🎯 Word Duel</h1>
-          <p className="text-gray-600">Room: {currentRoom.code} • Mode: {currentRoom.mode}</p>
+          <p className="text-gray-600">
+            Room: {currentRoom.code} • Mode: {currentRoom.mode}
+            {isBattleRoyale && ` • Round ${roundNumber}`}
+            {isSeriesGame &&
+              ` • Game ${roundNumber} of best of ${getSeriesLength(currentRoom)} (${formatSeriesScore(currentRoom)})`}{' '}
+            • {wordLength} letters • {maxAttempts} attempts
+            {currentRoom.hardMode && ' • 🔥 Hard Mode'}
+            {currentRoom.strictGuesses && ' • 📖 Answer List Only'}
+          </p>
           
           {/* Connection Status */}
           <div className="mt-4">
@@ -153,11 +516,31 @@ function GamePage() {
           </div>
 
           {/* Game Timer */}
-          <GameTimer 
-            startTime={new Date()}
-            isActive={gameStatus === 'playing'}
-            mode={currentRoom.mode}
-          />
+          {isChessClock ? (
+            chessClock && (
+              <ChessClockTimer
+                players={currentRoom.players}
+                clock={chessClock}
+                incrementSeconds={
+                  currentRoom.clockIncrement ?? DEFAULT_ROOM_SETTINGS.clockIncrement
+                }
+                currentPlayerId={currentPlayerId}
+                onFlag={handleFlag}
+              />
+            )
+          ) : (
+            <GameTimer
+              startTime={
+                // gameStartedAt is local time; the timer counts on the server's clock
+                currentRoom.gameStartTime ??
+                (gameStartedAt !== null ? gameStartedAt + socketService.getClockOffset() : null)
+              }
+              timeLimit={getRoomTimeLimit(currentRoom)}
+              isActive={gameStatus === 'playing' && !roundStandings}
+              mode={currentRoom.mode}
+              onTimeUp={handleTimeUp}
+            />
+          )}
         </motion.div>
 
         {/* Error Display */}
@@ -171,41 +554,117 @@ function GamePage() {
           </motion.div>
         )}
 
-        {/* Game Board */}
-        <motion.div
-          initial={{ opacity: 0, y: 20 }}
-          animate={{ opacity: 1, y: 0 }}
-          transition={{ delay: 0.2 }}
-          className="mb-8"
-        >
-          <GameBoard />
-        </motion.div>
-
-        {/* Current Guess Display */}
-        <motion.div
-          initial={{ opacity: 0, y: 20 }}
-          animate={{ opacity: 1, y: 0 }}
-          transition={{ delay: 0.3 }}
-          className="text-center mb-8"
-        >
-          <div className="text-2xl font-mono text-gray-800 mb-2">
-            {currentGuess.padEnd(5, '_').split('').map((char, index) => (
-              <span key={index} className="inline-block w-8 h-8 border-2 border-gray-300 mx-1 rounded flex items-center justify-center">
-                {char === '_' ? '' : char}
-              </span>
-            ))}
+        {roundStandings ? (
+          <div className="mb-8">
+            {isSeriesGame ? (
+              <RoundIntermission
+                roundNumber={roundNumber}
+                standings={roundStandings}
+                seconds={SERIES_INTERMISSION_SECONDS}
+                isHost={isHost}
+                onContinue={handleRoundContinue}
+                title={`Game ${roundNumber} Complete`}
+                continueLabel={`Game ${roundNumber + 1} starts in`}
+              >
+                <div className="text-center mb-6">
+                  <div className="text-sm text-gray-500">
+                    Best of {getSeriesLength(currentRoom)} • first to{' '}
+                    {getWinsNeeded(getSeriesLength(currentRoom))}
+                  </div>
+                  <div className="text-3xl font-black">{formatSeriesScore(currentRoom)}</div>
+                  <div className="text-sm text-gray-600">
+                    {currentRoom.players.map((player) => player.username).join(' vs ')}
+                  </div>
+                </div>
+              </RoundIntermission>
+            ) : (
+              <RoundIntermission
+                roundNumber={roundNumber}
+                standings={roundStandings}
+                seconds={ROUND_INTERMISSION_SECONDS}
+                isHost={isHost}
+                onContinue={handleRoundContinue}
+              />
+            )}
           </div>
-          <p className="text-gray-600">Type your guess and press Enter</p>
-        </motion.div>
+        ) : (
+          <>
+            {/* Round Status */}
+            {(isEliminated || isTimedOut || isFlagged || (isBattleRoyale && hasFinishedRound)) && (
+              <motion.div
+                initial={{ opacity: 0, scale: 0.9 }}
+                animate={{ opacity: 1, scale: 1 }}
+                className={`px-4 py-3 rounded mb-6 text-center border ${
+                  isEliminated || isTimedOut || flaggedPlayerId === currentPlayerId
+                    ? 'bg-red-50 border-red-300 text-red-700'
+                    : 'bg-blue-50 border-blue-300 text-blue-700'
+                }`}
+              >
+                {isEliminated
+                  ? '☠️ You have been eliminated. Stick around to see who wins!'
+                  : isTimedOut
+                    ? "⏰ Time's up! Your remaining attempts were forfeited."
+                    : isFlagged
+                      ? flaggedPlayerId === currentPlayerId
+                        ? '⌛ Your clock ran out. You lose on time.'
+                        : `⌛ ${currentRoom.players.find((player) => player.id === flaggedPlayerId)?.username ?? 'Your opponent'} ran out of time!`
+                      : `Waiting for the other players to finish round ${roundNumber}...`}
+              </motion.div>
+            )}
 
-        {/* Virtual Keyboard */}
-        <motion.div
-          initial={{ opacity: 0, y: 20 }}
-          animate={{ opacity: 1, y: 0 }}
-          transition={{ delay: 0.4 }}
-        >
-          <Keyboard onKeyPress={handleKeyPress} />
-        </motion.div>
+            {isChessClock && !isMyTurn && !isFlagged && !hasFinishedRound && (
+              <div className="px-4 py-3 rounded mb-6 text-center border bg-gray-50 border-gray-300 text-gray-700">
+                ♟️ Opponent&apos;s turn. Your clock is paused.
+              </div>
+            )}
+
+            {/* Game Board */}
+            <motion.div
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              transition={{ delay: 0.2 }}
+              className="mb-8"
+            >
+              <GameBoard />
+            </motion.div>
+
+            {/* Current Guess Display */}
+            <motion.div
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              transition={{ delay: 0.3 }}
+              className="text-center mb-8"
+            >
+              <CurrentGuess
+                guess={currentGuess}
+                wordLength={wordLength}
+                isShaking={isShaking}
+                onShakeComplete={() => setIsShaking(false)}
+              />
+              <p className="text-gray-600">Type or paste your guess and press Enter</p>
+            </motion.div>
+
+            {/* Virtual Keyboard */}
+            <motion.div
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              transition={{ delay: 0.4 }}
+            >
+              <Keyboard onKeyPress={handleKeyPress} disabled={!canGuess} />
+            </motion.div>
+
+            {/* Live Scores */}
+            <div className="max-w-md mx-auto mt-8">
+              <Scoreboard
+                players={getScoredPlayers(currentRoom.players, playerScores)}
+                mode={currentRoom.mode}
+                winner={winner}
+                currentPlayer={currentPlayerId ?? null}
+                maxAttempts={maxAttempts}
+              />
+            </div>
+          </>
+        )}
 
         {/* Game Controls */}
         <motion.div
@@ -221,7 +680,7 @@ function GamePage() {
             View Results
           </button>
           <button
-            onClick={() => navigate({ to: '/lobby' })}
+            onClick={handleLeaveGame}
             className="px-6 py-3 bg-gray-600 text-white rounded-lg font-semibold hover:bg-gray-700 transition-colors"
           >
             Back to Lobby
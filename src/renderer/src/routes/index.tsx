@@ -38,6 +38,26 @@ function OnboardingPage() {
         Play Now
       </motion.button>
 
+      <motion.button
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        transition={{ duration: 0.5, delay: 0.45 }}
+        onClick={() => navigate({ to: '/practice' })}
+        className="mt-4 border border-[#1a1a1a] rounded-full px-8 py-2 text-base font-semibold hover:bg-[#1a1a1a] hover:text-white transition-colors"
+      >
+        Practice Offline
+      </motion.button>
+
+      <motion.button
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        transition={{ duration: 0.5, delay: 0.5 }}
+        onClick={() => navigate({ to: '/daily' })}
+        className="mt-3 border border-[#1a1a1a] rounded-full px-8 py-2 text-base font-semibold hover:bg-[#1a1a1a] hover:text-white transition-colors"
+      >
+        Daily Puzzle
+      </motion.button>
+
       {/* Decorative Elements */}
       <motion.div
         initial={{ opacity: 0 }}
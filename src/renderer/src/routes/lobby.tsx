@@ -1,10 +1,15 @@
 import { createFileRoute, useNavigate } from '@tanstack/react-router'
-import { useState } from 'react'
+import { useEffect, useState } from 'react'
 import { motion } from 'framer-motion'
 import { apiService } from '../services/apiService'
 import { useGameStore } from '../stores/gameStore'
 import { ModeSelector } from '../components/ModeSelector'
-import type { Room } from '../stores/gameStore'
+import { AvatarPicker } from '../components/AvatarPicker'
+import { useProfileStore } from '../stores/profileStore'
+import { RoomSettingsForm } from '../components/RoomSettingsForm'
+import { DEFAULT_ROOM_SETTINGS } from '../stores/gameStore'
+import type { GameMode, Room, RoomSettings } from '../stores/gameStore'
+import { GAME_MODES } from '../lib/modes'
 import { socketService } from '../services/socketService'
 //workds
 export const Route = createFileRoute('/lobby')({
@@ -15,11 +20,36 @@ function LobbyPage() {
   const navigate = useNavigate()
   const [username, setUsername] = useState('')
   const [roomCode, setRoomCode] = useState('')
-  const [selectedMode, setSelectedMode] = useState<'duel' | 'battleRoyale'>('duel')
+  const [selectedMode, setSelectedMode] = useState<GameMode>('duel')
+  const [roomSettings, setRoomSettings] = useState<RoomSettings>(DEFAULT_ROOM_SETTINGS)
   const [isLoading, setIsLoading] = useState(false)
   const [error, setError] = useState('')
   
-  const { setCurrentPlayer, setIsHost, setCurrentRoom, setMode } = useGameStore()
+  const { setCurrentPlayer, setIsHost, setIsSpectator, setCurrentRoom, setMode } = useGameStore()
+  const { profile, isLoaded: isProfileLoaded, loadProfile, updateProfile } = useProfileStore()
+
+  useEffect(() => {
+    loadProfile()
+  }, [loadProfile])
+
+  // Pre-fill from the saved profile once, without overwriting anything already typed
+  const [hasPrefilled, setHasPrefilled] = useState(false)
+  useEffect(() => {
+    if (!isProfileLoaded || hasPrefilled) return
+    setHasPrefilled(true)
+    setUsername((current) => current || profile.displayName)
+    setSelectedMode(profile.preferredMode)
+  }, [isProfileLoaded, hasPrefilled, profile])
+
+  const handleModeChange = (mode: GameMode) => {
+    setSelectedMode(mode)
+    updateProfile({ preferredMode: mode })
+  }
+
+  // The name is remembered once it has been used for a room
+  const rememberName = () => {
+    if (username.trim() !== profile.displayName) updateProfile({ displayName: username.trim() })
+  }
 
   const handleCreateRoom = async () => {
     if (!username.trim()) {
@@ -38,31 +68,41 @@ function LobbyPage() {
       
       const response = await apiService.createRoom({
         username: username.trim(),
-        mode: selectedMode
+        playerId: profile.id,
+        avatar: profile.avatar,
+        mode: selectedMode,
+        ...roomSettings
       })
       console.log('Room created successfully:', response)
       
+      rememberName()
       setCurrentPlayer(username.trim())
       setIsHost(true)
+      setIsSpectator(false)
       setMode(selectedMode)
       
       const newRoom: Room = {
         code: response.code,
-        hostId: username.trim(),
-        players: [{ 
-          id: username.trim(), 
-          username: username.trim(), 
-          score: 0,
-          eliminated: false,
-          guesses: [],
-          won: false
-        }],
+        hostId: profile.id,
+        players: [
+          {
+            id: profile.id,
+            username: username.trim(),
+            playerId: profile.id,
+            avatar: profile.avatar,
+            score: 0,
+            eliminated: false,
+            guesses: [],
+            won: false
+          }
+        ],
         solutionWord: null,
         status: 'waiting',
         mode: selectedMode,
-        maxPlayers: selectedMode === 'duel' ? 2 : 8,
+        maxPlayers: GAME_MODES[selectedMode].maxPlayers,
         gameStartTime: null,
-        roundNumber: 1
+        roundNumber: 1,
+        ...roomSettings
       }
       
       setCurrentRoom(newRoom)
@@ -104,11 +144,18 @@ function LobbyPage() {
       await socketService.connect()
       console.log('✅ Socket connected successfully')
       
-      const response = await apiService.joinRoom({ code: roomCode.trim().toUpperCase(), username: username.trim() })
+      const response = await apiService.joinRoom({
+        code: roomCode.trim().toUpperCase(),
+        username: username.trim(),
+        playerId: profile.id,
+        avatar: profile.avatar
+      })
       console.log('Joined room successfully:', response)
       
+      rememberName()
       setCurrentPlayer(username.trim())
       setIsHost(false)
+      setIsSpectator(false)
       setMode(response.room.mode)
       setCurrentRoom(response.room)
       navigate({ to: `/room/${roomCode.trim().toUpperCase()}` })
@@ -132,7 +179,38 @@ function LobbyPage() {
     }
   }
 
+  const handleWatchRoom = async () => {
+    if (!roomCode.trim()) {
+      setError('Please enter a room code to watch')
+      return
+    }
+
+    const code = roomCode.trim().toUpperCase()
+    // Spectators don't need a name, but one is shown to players if given
+    const spectatorName = username.trim() || 'Spectator'
+
+    setIsLoading(true)
+    setError('')
 
+    try {
+      await socketService.connect()
+
+      const response = await apiService.watchRoom({ code, username: spectatorName })
+      console.log('Watching room:', response)
+
+      setCurrentPlayer(spectatorName)
+      setIsHost(false)
+      setIsSpectator(true)
+      setMode(response.room.mode)
+      setCurrentRoom(response.room)
+      navigate({ to: '/room/$code/watch', params: { code } })
+    } catch (err) {
+      console.error('Error watching room:', err)
+      setError(err instanceof Error ? err.message : 'Failed to watch room. Please try again.')
+    } finally {
+      setIsLoading(false)
+    }
+  }
 
   return (
     <div className="min-h-screen bg-[#f4f4f1] text-black flex flex-col items-center justify-center font-serif px-4 py-8 sm:px-6 md:px-10">
@@ -149,20 +227,27 @@ function LobbyPage() {
         {/* Username Input */}
         <div className="mb-6">
           <label className="block text-sm font-medium mb-2">Username</label>
-          <input
-            type="text"
-            value={username}
-            onChange={(e) => setUsername(e.target.value)}
-            placeholder="Enter your username"
-            className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-[#1a1a1a] focus:border-transparent"
-            disabled={isLoading}
-          />
+          <div className="flex items-center gap-3">
+            <AvatarPicker
+              avatar={profile.avatar}
+              onAvatarChange={(avatar) => updateProfile({ avatar })}
+              disabled={isLoading}
+            />
+            <input
+              type="text"
+              value={username}
+              onChange={(e) => setUsername(e.target.value)}
+              placeholder="Enter your username"
+              className="flex-1 px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-[#1a1a1a] focus:border-transparent"
+              disabled={isLoading}
+            />
+          </div>
         </div>
 
         {/* Game Mode Selection */}
         <ModeSelector
           selectedMode={selectedMode}
-          onModeChange={setSelectedMode}
+          onModeChange={handleModeChange}
           disabled={isLoading}
         />
 
@@ -232,8 +317,14 @@ function LobbyPage() {
         >
           <h2 className="text-xl font-bold mb-4 text-center">Create a New Room</h2>
           <div className="mb-4 text-center text-sm text-gray-600">
-            {selectedMode === 'duel' ? '⚔️ 1v1 Duel Mode' : '🏆 Battle Royale Mode'}
+            {GAME_MODES[selectedMode].icon} {GAME_MODES[selectedMode].label} Mode
           </div>
+          <RoomSettingsForm
+            settings={roomSettings}
+            onSettingsChange={setRoomSettings}
+            disabled={isLoading}
+            mode={selectedMode}
+          />
           <button
             onClick={handleCreateRoom}
             disabled={isLoading}
@@ -271,6 +362,17 @@ function LobbyPage() {
           >
             {isLoading ? 'Joining...' : 'Join Room'}
           </button>
+
+          <button
+            onClick={handleWatchRoom}
+            disabled={isLoading}
+            className="w-full mt-3 py-3 border-2 border-[#1a1a1a] text-[#1a1a1a] rounded-lg font-semibold hover:bg-gray-50 transition-colors disabled:opacity-50"
+          >
+            👀 Watch Room
+          </button>
+          <p className="mt-2 text-xs text-gray-500 text-center">
+            Spectators see every board live without taking a player slot
+          </p>
         </motion.div>
 
         {/* Back Button */}
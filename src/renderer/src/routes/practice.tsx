@@ -0,0 +1,247 @@
+import { createFileRoute, useNavigate } from '@tanstack/react-router'
+import { useState } from 'react'
+import { motion } from 'framer-motion'
+import { DEFAULT_ROOM_SETTINGS } from '../stores/gameStore'
+import type { RoomSettings } from '../stores/gameStore'
+import { GameBoard } from '../components/GameBoard'
+import { Keyboard } from '../components/Keyboard'
+import { CurrentGuess } from '../components/CurrentGuess'
+import { RoomSettingsForm } from '../components/RoomSettingsForm'
+import { useLocalGame } from '../hooks/useLocalGame'
+import { usePhysicalKeyboard } from '../hooks/usePhysicalKeyboard'
+import { getAnswerWords, getRandomAnswer } from '../lib/dictionary'
+import { filterCandidates, rankGuesses } from '../lib/solver'
+import type { GuessSuggestion } from '../lib/solver'
+import { getRevealedRows } from '../lib/utils'
+
+export const Route = createFileRoute('/practice')({
+  component: PracticePage
+})
+
+interface PracticeRound {
+  id: number
+  solution: string
+  settings: RoomSettings
+}
+
+function PracticePage() {
+  const navigate = useNavigate()
+  const [settings, setSettings] = useState<RoomSettings>(DEFAULT_ROOM_SETTINGS)
+  const [showSettings, setShowSettings] = useState(false)
+  const [round, setRound] = useState<PracticeRound>(() => ({
+    id: 1,
+    solution: getRandomAnswer(DEFAULT_ROOM_SETTINGS.wordLength),
+    settings: DEFAULT_ROOM_SETTINGS
+  }))
+
+  const startNewGame = () => {
+    setRound((prev) => ({
+      id: prev.id + 1,
+      solution: getRandomAnswer(settings.wordLength),
+      settings
+    }))
+    setShowSettings(false)
+  }
+
+  return (
+    <div className="min-h-screen bg-[#f4f4f1] text-black font-serif p-4">
+      <div className="max-w-4xl mx-auto">
+        {/* Header */}
+        <motion.div
+          initial={{ opacity: 0, y: -20 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="text-center mb-6"
+        >
+          <h1 className="text-4xl font-black mb-2">🧩 Practice</h1>
+          <p className="text-gray-600">
+            Offline single-player • {round.settings.wordLength} letters •{' '}
+            {round.settings.maxAttempts} attempts
+            {round.settings.hardMode && ' • 🔥 Hard Mode'}
+            {round.settings.strictGuesses && ' • 📖 Answer List Only'}
+          </p>
+          <button
+            onClick={() => setShowSettings(!showSettings)}
+            className="mt-3 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg text-sm font-semibold hover:bg-gray-50 transition-colors"
+          >
+            ⚙️ {showSettings ? 'Hide Settings' : 'Settings'}
+          </button>
+        </motion.div>
+
+        {/* Settings */}
+        {showSettings && (
+          <motion.div
+            initial={{ opacity: 0, y: -10 }}
+            animate={{ opacity: 1, y: 0 }}
+            className="max-w-md mx-auto mb-6 p-6 bg-white rounded-lg shadow-md"
+          >
+            <RoomSettingsForm settings={settings} onSettingsChange={setSettings} />
+            <button
+              onClick={startNewGame}
+              className="w-full bg-[#1a1a1a] text-white py-3 rounded-lg font-semibold hover:bg-[#333] transition-colors"
+            >
+              Start New Game
+            </button>
+          </motion.div>
+        )}
+
+        <PracticeGame
+          key={round.id}
+          solution={round.solution}
+          settings={round.settings}
+          onNewGame={startNewGame}
+        />
+
+        {/* Back Button */}
+        <div className="text-center mt-8">
+          <button
+            onClick={() => navigate({ to: '/' })}
+            className="px-6 py-3 border border-gray-300 text-gray-700 rounded-lg font-semibold hover:bg-gray-50 transition-colors"
+          >
+            Back to Home
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+interface PracticeHint {
+  // Number of guesses the hint was computed for, so it disappears after the next guess
+  guessCount: number
+  remaining: number
+  suggestions: GuessSuggestion[]
+}
+
+interface PracticeGameProps {
+  solution: string
+  settings: RoomSettings
+  onNewGame: () => void
+}
+
+function PracticeGame({ solution, settings, onNewGame }: PracticeGameProps) {
+  const game = useLocalGame({
+    solution,
+    maxAttempts: settings.maxAttempts,
+    hardMode: settings.hardMode,
+    strictGuesses: settings.strictGuesses
+  })
+
+  const [hint, setHint] = useState<PracticeHint | null>(null)
+
+  usePhysicalKeyboard({
+    enabled: game.status === 'playing',
+    onKeyPress: game.handleKeyPress,
+    onPaste: game.handlePaste
+  })
+
+  const showHint = () => {
+    const candidates = filterCandidates(
+      getAnswerWords(solution.length),
+      getRevealedRows(game.board)
+    )
+    setHint({
+      guessCount: game.guesses.length,
+      remaining: candidates.length,
+      suggestions: rankGuesses(candidates, { candidatesOnly: settings.hardMode, limit: 3 })
+    })
+  }
+
+  const currentHint = hint && hint.guessCount === game.guesses.length ? hint : null
+
+  return (
+    <>
+      {/* Message */}
+      {game.message && (
+        <motion.div
+          initial={{ opacity: 0, scale: 0.9 }}
+          animate={{ opacity: 1, scale: 1 }}
+          className="max-w-md mx-auto bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded mb-6 text-center"
+        >
+          {game.message}
+        </motion.div>
+      )}
+
+      {/* Game Board */}
+      <div className="mb-8">
+        <GameBoard board={game.board} />
+      </div>
+
+      {game.status === 'playing' ? (
+        <>
+          {/* Current Guess Display */}
+          <div className="text-center mb-8">
+            <CurrentGuess
+              guess={game.currentGuess}
+              wordLength={solution.length}
+              isShaking={game.isShaking}
+              onShakeComplete={game.clearShake}
+            />
+            <p className="text-gray-600">Type or paste your guess and press Enter</p>
+          </div>
+
+          {/* Hint */}
+          <div className="max-w-md mx-auto mb-6 text-center">
+            {currentHint ? (
+              <motion.div
+                initial={{ opacity: 0, y: -10 }}
+                animate={{ opacity: 1, y: 0 }}
+                className="p-3 bg-blue-50 border border-blue-200 rounded-lg"
+              >
+                <div className="text-sm text-blue-800 mb-2">
+                  💡 {currentHint.remaining} possible word{currentHint.remaining !== 1 ? 's' : ''}{' '}
+                  left. Try:
+                </div>
+                <div className="flex justify-center gap-2">
+                  {currentHint.suggestions.map((suggestion) => (
+                    <button
+                      key={suggestion.word}
+                      onClick={() => game.handlePaste(suggestion.word)}
+                      className="px-3 py-2 bg-white rounded hover:bg-blue-100 transition-colors text-sm font-mono"
+                    >
+                      {suggestion.word}
+                      <span className="block text-xs text-gray-500">
+                        {suggestion.expectedInformation.toFixed(2)} bits
+                      </span>
+                    </button>
+                  ))}
+                </div>
+              </motion.div>
+            ) : (
+              <button
+                onClick={showHint}
+                className="px-4 py-2 bg-blue-500 text-white rounded-lg text-sm font-semibold hover:bg-blue-600 transition-colors"
+              >
+                💡 Hint
+              </button>
+            )}
+          </div>
+
+          {/* Virtual Keyboard */}
+          <Keyboard onKeyPress={game.handleKeyPress} letterStatuses={game.letterStatuses} />
+        </>
+      ) : (
+        <motion.div
+          initial={{ opacity: 0, scale: 0.9 }}
+          animate={{ opacity: 1, scale: 1 }}
+          className="max-w-md mx-auto bg-white rounded-lg shadow-md p-8 text-center"
+        >
+          <h2 className="text-3xl font-bold mb-4">
+            {game.status === 'won' ? (
+              <span className="text-green-600">🎉 Solved in {game.guesses.length}!</span>
+            ) : (
+              <span className="text-gray-600">Out of attempts</span>
+            )}
+          </h2>
+          <p className="text-lg text-gray-600 mb-2">The word was:</p>
+          <p className="text-2xl font-bold text-[#1a1a1a] mb-6">{solution}</p>
+          <button
+            onClick={onNewGame}
+            className="w-full bg-[#1a1a1a] text-white py-3 rounded-lg font-semibold hover:bg-[#333] transition-colors"
+          >
+            Play Again
+          </button>
+        </motion.div>
+      )}
+    </>
+  )
+}
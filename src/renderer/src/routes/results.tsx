@@ -1,6 +1,21 @@
 import { createFileRoute, useNavigate } from '@tanstack/react-router'
+import { useMemo } from 'react'
 import { motion } from 'framer-motion'
 import { useGameStore } from '../stores/gameStore'
+import type { Player } from '../stores/gameStore'
+import { WordsRemaining } from '../components/WordsRemaining'
+import { GameAnalysis } from '../components/GameAnalysis'
+import { ShareButton } from '../components/ShareButton'
+import { ReplayViewer } from '../components/ReplayViewer'
+import { RatingBadge } from '../components/RatingBadge'
+import { SeriesSummary } from '../components/SeriesSummary'
+import { isSeries } from '../lib/series'
+import { getScoredPlayers } from '../lib/scoring'
+import { useReplayStore } from '../stores/replayStore'
+import { useRatingStore } from '../stores/ratingStore'
+import { socketService } from '../services/socketService'
+import { getRatingKey } from '../lib/rating'
+import { findLocalPlayer, getLocalPlayerId } from '../lib/playerId'
 
 export const Route = createFileRoute('/results')({
   component: ResultsPage
@@ -8,22 +23,56 @@ export const Route = createFileRoute('/results')({
 
 function ResultsPage() {
   const navigate = useNavigate()
-  const { currentRoom, winner, resetGame } = useGameStore()
+  const {
+    currentRoom,
+    currentPlayer,
+    winner,
+    gameBoard,
+    gameStatus,
+    playerBoards,
+    playerScores,
+    revealedSolution,
+    resetGame
+  } = useGameStore()
+  const replay = useReplayStore((state) => state.replay)
+  const { ratings, lastChanges } = useRatingStore()
+  const currentPlayerId = currentRoom
+    ? findLocalPlayer(currentRoom.players, currentPlayer)?.id
+    : undefined
 
+  // The server may not echo our own id back, but we always know it
+  const renderRating = (player: Player) => {
+    const key = getRatingKey(player) ?? (player.id === currentPlayerId ? getLocalPlayerId() : null)
+    if (!key || !ratings[key]) return null
+    return <RatingBadge rating={ratings[key].rating} change={lastChanges[key]} />
+  }
+
+  // The game is over, so there is nothing left to rejoin
   const handlePlayAgain = () => {
+    if (currentRoom) socketService.leaveRoom(currentRoom.code)
     resetGame()
     navigate({ to: '/lobby' })
   }
 
   const handleBackToHome = () => {
+    if (currentRoom) socketService.leaveRoom(currentRoom.code)
     resetGame()
     navigate({ to: '/' })
   }
 
+  // Our own rows are always in gameBoard, even if the server never echoed them back
+  const analysisBoards = useMemo(
+    () => (currentPlayerId ? { ...playerBoards, [currentPlayerId]: gameBoard } : playerBoards),
+    [currentPlayerId, playerBoards, gameBoard]
+  )
+
   if (!currentRoom) {
     return <div>Loading...</div>
   }
 
+  // Rooms only carry the word if the server sent an update after game-over
+  const solution = revealedSolution ?? currentRoom.solutionWord
+
   return (
     <div className="min-h-screen bg-[#f4f4f1] text-black font-serif px-4 py-8">
       <div className="max-w-2xl mx-auto">
@@ -52,14 +101,73 @@ function ResultsPage() {
             )}
           </h2>
           
-          {currentRoom.solutionWord && (
+          {solution && (
             <div className="mb-4">
               <p className="text-lg text-gray-600 mb-2">The word was:</p>
-              <p className="text-2xl font-bold text-[#1a1a1a]">{currentRoom.solutionWord}</p>
+              <p className="text-2xl font-bold text-[#1a1a1a]">{solution}</p>
             </div>
           )}
         </motion.div>
 
+        {/* Series */}
+        {isSeries(currentRoom) && (
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ delay: 0.25 }}
+          >
+            <SeriesSummary room={currentRoom} />
+          </motion.div>
+        )}
+
+        {/* Share */}
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ delay: 0.25 }}
+        >
+          <ShareButton />
+        </motion.div>
+
+        {/* Words Remaining */}
+        {solution && (
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ delay: 0.3 }}
+          >
+            {/* gameBoard only ever holds the local player's own rows */}
+            <WordsRemaining board={gameBoard} solution={solution} />
+          </motion.div>
+        )}
+
+        {/* Guess Analysis */}
+        {solution && gameStatus === 'finished' && (
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ delay: 0.35 }}
+          >
+            <GameAnalysis
+              players={currentRoom.players}
+              boards={analysisBoards}
+              solution={solution}
+              currentPlayerId={currentPlayerId}
+            />
+          </motion.div>
+        )}
+
+        {/* Replay */}
+        {replay && replay.roomCode === currentRoom.code && (
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ delay: 0.4 }}
+          >
+            <ReplayViewer replay={replay} />
+          </motion.div>
+        )}
+
         {/* Scoreboard */}
         <motion.div
           initial={{ opacity: 0, y: 20 }}
@@ -70,7 +178,7 @@ function ResultsPage() {
           <h3 className="text-2xl font-bold mb-6 text-center">Final Scoreboard</h3>
           
           <div className="space-y-4">
-            {currentRoom.players
+            {getScoredPlayers(currentRoom.players, playerScores)
               .sort((a, b) => b.score - a.score)
               .map((player, index) => (
                 <motion.div
@@ -105,6 +213,7 @@ function ResultsPage() {
                   <div className="text-right">
                     <div className="text-2xl font-bold text-[#1a1a1a]">{player.score}</div>
                     <div className="text-sm text-gray-500">points</div>
+                    {renderRating(player)}
                   </div>
                 </motion.div>
               ))}
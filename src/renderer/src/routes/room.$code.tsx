@@ -1,13 +1,32 @@
 import { createFileRoute, useNavigate } from '@tanstack/react-router'
 import { useState, useEffect } from 'react'
 import { motion } from 'framer-motion'
-import { useGameStore } from '../stores/gameStore'
+import {
+  useGameStore,
+  getRoomWordLength,
+  getRoomMaxAttempts,
+  getRoomTimeLimit
+} from '../stores/gameStore'
+import { useReplayStore } from '../stores/replayStore'
+import { useRatingStore } from '../stores/ratingStore'
+import { useStatsStore } from '../stores/statsStore'
+import { useProfileStore } from '../stores/profileStore'
 import { socketService } from '../services/socketService'
 import { PlayerList } from '../components/PlayerAvatar'
 import { CustomWordInput } from '../components/CustomWordInput'
 import { GameTimer } from '../components/GameTimer'
 import { CountdownTimer } from '../components/GameTimer'
 import { Leaderboard } from '../components/Leaderboard'
+import { getRandomAnswer } from '../lib/dictionary'
+import { ELIMINATION_RULES } from '../lib/rounds'
+import { getSeriesLength, isSeries } from '../lib/series'
+import { GAME_MODES } from '../lib/modes'
+import { getScoredPlayers } from '../lib/scoring'
+import { getStatsSummary } from '../lib/stats'
+import { findLocalPlayer } from '../lib/playerId'
+
+// Fallback when the server doesn't say how long the pre-game countdown lasts
+const START_COUNTDOWN_SECONDS = 3
 
 export const Route = createFileRoute('/room/$code')({
   component: RoomPage
@@ -21,23 +40,43 @@ function RoomPage() {
     currentPlayer,
     isHost,
     gameStatus,
+    playerBoards,
+    playerScores,
     setCurrentRoom,
     setGameStatus
   } = useGameStore()
+  const { startRecording, recordRoom, recordStart } = useReplayStore()
+  const { ratings, loadRatings } = useRatingStore()
+  const { games, loadStats } = useStatsStore()
+  const profile = useProfileStore((state) => state.profile)
 
   const [customWord, setCustomWord] = useState('')
   const [isStarting, setIsStarting] = useState(false)
-  const [showCountdown, setShowCountdown] = useState(false)
+  // Server time the game begins, from game-starting; every client counts down to the same moment
+  const [startsAt, setStartsAt] = useState<number | null>(null)
+  const [countdownSeconds, setCountdownSeconds] = useState(START_COUNTDOWN_SECONDS)
   const [error, setError] = useState('')
   const [isConnected, setIsConnected] = useState(false)
+  // Room updates replace currentRoom constantly; joining should only happen once per room
+  const roomCode = currentRoom?.code
+
+  useEffect(() => {
+    loadRatings()
+    loadStats()
+  }, [loadRatings, loadStats])
 
   useEffect(() => {
-    if (!currentRoom || currentRoom.code !== code) {
-      // Try to join the room if not already in it
-      navigate({ to: '/lobby' })
+    const room = useGameStore.getState().currentRoom
+    if (!room || roomCode !== code) {
+      // A saved session is being rejoined from the root; wait for its snapshot instead
+      if (socketService.getSavedSession()?.roomCode !== code) {
+        navigate({ to: '/lobby' })
+      }
       return
     }
 
+    startRecording(room)
+
     // Connect to socket and join room
     const connectAndJoin = async () => {
       try {
@@ -45,8 +84,19 @@ function RoomPage() {
         await socketService.connect()
         setIsConnected(true)
         
-        // Then join the room
-        socketService.joinRoom(currentPlayer || 'Anonymous', code)
+        // Then join the room, and remember it in case the connection drops
+        const username = currentPlayer || 'Anonymous'
+        await socketService.joinRoom(username, code, {
+          playerId: profile.id,
+          avatar: profile.avatar
+        })
+        socketService.startSession({
+          roomCode: code,
+          playerId: profile.id,
+          username,
+          isHost: useGameStore.getState().isHost,
+          isSpectator: false
+        })
       } catch (error) {
         console.error('Failed to connect to socket:', error)
         setError('Failed to connect to game server. Please try again.')
@@ -55,29 +105,57 @@ function RoomPage() {
     }
 
     connectAndJoin()
+  }, [code, roomCode, currentPlayer, profile.id, profile.avatar, navigate, startRecording])
+
+  useEffect(() => {
+    if (roomCode !== code) return
 
     // Listen for room updates
-    socketService.onRoomUpdated((room) => {
+    const offRoomUpdated = socketService.onRoomUpdated((room) => {
       setCurrentRoom(room)
+      recordRoom(room)
+    })
+
+    // Listen for the start countdown
+    const offGameStarting = socketService.onGameStarting((data) => {
+      if (data.roomCode !== code) return
+      const at = data.startsAt ?? socketService.now() + START_COUNTDOWN_SECONDS * 1000
+      setCountdownSeconds(Math.max(1, Math.ceil((at - socketService.now()) / 1000)))
+      setStartsAt(at)
     })
 
     // Listen for game start
-    socketService.onGameStarted((_data) => {
+    const offGameStarted = socketService.onGameStarted((_data) => {
+      recordStart(
+        useGameStore.getState().currentRoom?.players.map((player) => player.username) ?? []
+      )
       setGameStatus('playing')
-      setShowCountdown(false)
+      setStartsAt(null)
       navigate({ to: '/game' })
     })
 
     // Listen for game errors
-    socketService.onGameError((error) => {
+    const offGameError = socketService.onGameError((error) => {
       setError(error.message)
+      setStartsAt(null)
       setTimeout(() => setError(''), 5000)
     })
 
+    // Malformed messages are dropped rather than applied, so the room may be out of date
+    const offProtocolError = socketService.onProtocolError(() => {
+      setError('Received an unreadable update from the server.')
+      setTimeout(() => setError(''), 5000)
+    })
+
+    // The socket stays open between pages; only this page's listeners go
     return () => {
-      socketService.disconnect()
+      offRoomUpdated()
+      offGameStarting()
+      offGameStarted()
+      offGameError()
+      offProtocolError()
     }
-  }, [code, currentRoom, currentPlayer, navigate, setCurrentRoom, setGameStatus])
+  }, [code, roomCode, navigate, setCurrentRoom, setGameStatus, recordRoom, recordStart])
 
   const handleStartGame = async () => {
     if (!currentRoom) return
@@ -90,12 +168,10 @@ function RoomPage() {
         // Start with custom word
         socketService.startGame(code, customWord.trim().toUpperCase())
       } else {
-        // Start with random word
-        socketService.startGame(code)
+        // Start with a random word from the curated answer list
+        socketService.startGame(code, getRandomAnswer(getRoomWordLength(currentRoom)))
       }
-      
-      // Show countdown before starting
-      setShowCountdown(true)
+      // The countdown starts for everyone once the server answers with game-starting
     } catch (err) {
       setError('Failed to start game. Please try again.')
     } finally {
@@ -104,8 +180,7 @@ function RoomPage() {
   }
 
   const handleCountdownComplete = () => {
-    setShowCountdown(false)
-    // Game will start automatically via socket event
+    // Nothing to do here: the server sends game-started at startsAt
   }
 
   const handleCustomWordSubmit = (word: string) => {
@@ -127,11 +202,14 @@ function RoomPage() {
     )
   }
 
-  if (showCountdown) {
+  const currentPlayerId = findLocalPlayer(currentRoom.players, currentPlayer)?.id
+
+  if (startsAt !== null) {
     return (
       <div className="min-h-screen bg-[#f4f4f1] flex items-center justify-center">
         <CountdownTimer
-          seconds={3}
+          seconds={countdownSeconds}
+          endsAt={startsAt}
           onComplete={handleCountdownComplete}
           label="Game starting in"
         />
@@ -149,13 +227,47 @@ function RoomPage() {
           className="text-center mb-8"
         >
           <h1 className="text-4xl font-black mb-2">
-            {currentRoom.mode === 'duel' ? '⚔️ Duel Room' : '🏆 Battle Royale Room'}
+            {GAME_MODES[currentRoom.mode].icon} {GAME_MODES[currentRoom.mode].label} Room
           </h1>
           <div className="text-xl text-gray-600 mb-4">
             Room Code: <span className="font-mono font-bold text-[#1a1a1a]">{code}</span>
           </div>
-          <div className="text-lg text-gray-700">
-            {currentRoom.mode === 'duel' ? 'Face off against one opponent' : 'Last player standing wins'}
+          <div className="text-lg text-gray-700">{GAME_MODES[currentRoom.mode].tagline}</div>
+          <div className="mt-2 flex justify-center gap-2">
+            <span className="px-3 py-1 bg-gray-200 text-gray-800 text-sm font-semibold rounded-full">
+              🔤 {getRoomWordLength(currentRoom)} letters
+            </span>
+            <span className="px-3 py-1 bg-gray-200 text-gray-800 text-sm font-semibold rounded-full">
+              🎯 {getRoomMaxAttempts(currentRoom)} attempts
+            </span>
+            <span className="px-3 py-1 bg-gray-200 text-gray-800 text-sm font-semibold rounded-full">
+              ⏱️ {getRoomTimeLimit(currentRoom) / 60} min
+            </span>
+            {isSeries(currentRoom) && (
+              <span className="px-3 py-1 bg-indigo-100 text-indigo-800 text-sm font-semibold rounded-full">
+                🏅 Best of {getSeriesLength(currentRoom)}
+              </span>
+            )}
+            {currentRoom.mode === 'battleRoyale' && (
+              <span className="px-3 py-1 bg-red-100 text-red-800 text-sm font-semibold rounded-full">
+                ☠️ {ELIMINATION_RULES[currentRoom.eliminationRule ?? 'slowest'].label}
+              </span>
+            )}
+            {currentRoom.hardMode && (
+              <span className="px-3 py-1 bg-orange-100 text-orange-800 text-sm font-semibold rounded-full">
+                🔥 Hard Mode
+              </span>
+            )}
+            {currentRoom.strictGuesses && (
+              <span className="px-3 py-1 bg-blue-100 text-blue-800 text-sm font-semibold rounded-full">
+                📖 Answer List Only
+              </span>
+            )}
+            {(currentRoom.spectators?.length ?? 0) > 0 && (
+              <span className="px-3 py-1 bg-purple-100 text-purple-800 text-sm font-semibold rounded-full">
+                👀 {currentRoom.spectators?.length} watching
+              </span>
+            )}
           </div>
         </motion.div>
 
@@ -180,9 +292,9 @@ function RoomPage() {
             <button
               onClick={async () => {
                 try {
+                  // The saved session is rejoined as soon as the new socket connects
                   await socketService.reconnect()
                   setIsConnected(true)
-                  socketService.joinRoom(currentPlayer || 'Anonymous', code)
                 } catch (error) {
                   console.error('Reconnection failed:', error)
                   setError('Failed to reconnect. Please refresh the page.')
@@ -212,6 +324,7 @@ function RoomPage() {
             {/* Game Timer */}
             <GameTimer
               startTime={currentRoom.gameStartTime || null}
+              timeLimit={getRoomTimeLimit(currentRoom)}
               isActive={gameStatus === 'playing'}
               mode={currentRoom.mode}
             />
@@ -226,6 +339,7 @@ function RoomPage() {
                 <CustomWordInput
                   onWordSubmit={handleCustomWordSubmit}
                   onRandomWord={handleRandomWord}
+                  wordLength={getRoomWordLength(currentRoom)}
                   disabled={isStarting}
                   isLoading={isStarting}
                 />
@@ -304,13 +418,22 @@ function RoomPage() {
               players={currentRoom.players}
               currentPlayer={currentPlayer}
               mode={currentRoom.mode}
+              maxAttempts={getRoomMaxAttempts(currentRoom)}
+              ratings={ratings}
             />
 
             {/* Leaderboard */}
             <Leaderboard
-              players={currentRoom.players}
+              players={getScoredPlayers(currentRoom.players, playerScores)}
               mode={currentRoom.mode}
-              showStats={false}
+              maxAttempts={getRoomMaxAttempts(currentRoom)}
+              boards={playerBoards}
+              // Only our own history is on this machine
+              lifetimeStats={
+                currentPlayerId && games.length > 0
+                  ? { [currentPlayerId]: getStatsSummary(games) }
+                  : {}
+              }
             />
 
             {/* Room Info */}
@@ -336,7 +459,7 @@ function RoomPage() {
                 </div>
                 <div className="p-3 bg-gray-50 rounded-lg">
                   <div className="text-2xl font-bold text-gray-800">
-                    {currentRoom.mode === 'duel' ? '⚔️' : '🏆'}
+                    {GAME_MODES[currentRoom.mode].icon}
                   </div>
                   <div className="text-sm text-gray-600">Game Mode</div>
                 </div>
@@ -359,7 +482,10 @@ function RoomPage() {
           className="text-center mt-8"
         >
           <button
-            onClick={() => navigate({ to: '/lobby' })}
+            onClick={() => {
+              socketService.leaveRoom(code)
+              navigate({ to: '/lobby' })
+            }}
             className="px-6 py-3 border border-gray-300 text-gray-700 rounded-lg font-semibold hover:bg-gray-50 transition-colors"
           >
             ← Back to Lobby
@@ -0,0 +1,265 @@
+import { createFileRoute, useNavigate } from '@tanstack/react-router'
+import { useState, useEffect } from 'react'
+import { motion } from 'framer-motion'
+import {
+  useGameStore,
+  getRoomWordLength,
+  getRoomMaxAttempts,
+  createEmptyBoard
+} from '../stores/gameStore'
+import { useProfileStore } from '../stores/profileStore'
+import { socketService } from '../services/socketService'
+import { GameBoard } from '../components/GameBoard'
+import { GAME_MODES } from '../lib/modes'
+import { findPlayer } from '../lib/playerId'
+
+export const Route = createFileRoute('/room/$code_/watch')({
+  component: WatchPage
+})
+
+function WatchPage() {
+  const navigate = useNavigate()
+  const { code } = Route.useParams()
+  const {
+    currentRoom,
+    currentPlayer,
+    gameStatus,
+    winner,
+    playerBoards,
+    playerScores,
+    eliminatedPlayers,
+    setCurrentRoom,
+    setGameStatus,
+    setWinner,
+    updatePlayerBoard,
+    eliminatePlayer
+  } = useGameStore()
+  const profileId = useProfileStore((state) => state.profile.id)
+
+  const [error, setError] = useState('')
+  const [isConnected, setIsConnected] = useState(false)
+  // The room may already carry the word; it is only shown once game-over has been received
+  const [revealedSolution, setRevealedSolution] = useState<string | null>(
+    currentRoom?.status === 'finished' ? currentRoom.solutionWord : null
+  )
+
+  // Room updates replace currentRoom constantly; watching should only start once per room
+  const roomCode = currentRoom?.code
+
+  useEffect(() => {
+    if (roomCode !== code) {
+      // A saved session is being rejoined from the root; wait for its snapshot instead
+      if (socketService.getSavedSession()?.roomCode !== code) {
+        navigate({ to: '/lobby' })
+      }
+      return
+    }
+
+    const connectAndWatch = async () => {
+      try {
+        await socketService.connect()
+        setIsConnected(true)
+        const username = currentPlayer || 'Spectator'
+        await socketService.watchRoom(username, code)
+        socketService.startSession({
+          roomCode: code,
+          playerId: profileId,
+          username,
+          isHost: false,
+          isSpectator: true
+        })
+      } catch (error) {
+        console.error('Failed to connect to socket:', error)
+        setError('Failed to connect to game server. Please try again.')
+        setIsConnected(false)
+      }
+    }
+
+    connectAndWatch()
+  }, [code, roomCode, currentPlayer, profileId, navigate])
+
+  useEffect(() => {
+    if (roomCode !== code) return
+
+    const offRoomUpdated = socketService.onRoomUpdated((room) => {
+      setCurrentRoom(room)
+    })
+
+    const offGameStarted = socketService.onGameStarted((_data) => {
+      setRevealedSolution(null)
+      setGameStatus('playing')
+    })
+
+    const offGuessSubmitted = socketService.onGuessSubmitted((data) => {
+      const room = useGameStore.getState().currentRoom
+      const guesser =
+        room && data.roomCode === code && data.username
+          ? findPlayer(room.players, data.playerId, data.username)
+          : undefined
+      if (guesser) {
+        const submittedAt = data.submittedAt ?? socketService.now()
+        const gameStartTime = room?.gameStartTime
+        updatePlayerBoard(
+          guesser.id,
+          data.attemptNumber,
+          data.boardState.map((tile) => ({ letter: tile.letter, status: tile.status })),
+          gameStartTime ? submittedAt - new Date(gameStartTime).getTime() : null
+        )
+      }
+    })
+
+    const offPlayerEliminated = socketService.onPlayerEliminated((data) => {
+      if (data.roomCode === code && data.playerId) {
+        eliminatePlayer(data.playerId)
+      }
+    })
+
+    const offGameOver = socketService.onGameOver((data) => {
+      if (data.roomCode === code) {
+        setRevealedSolution(
+          data.solution ?? useGameStore.getState().currentRoom?.solutionWord ?? null
+        )
+        setWinner(data.winner ?? null)
+        setGameStatus('finished')
+      }
+    })
+
+    return () => {
+      offRoomUpdated()
+      offGameStarted()
+      offGuessSubmitted()
+      offPlayerEliminated()
+      offGameOver()
+    }
+  }, [code, roomCode, setCurrentRoom, setGameStatus, setWinner, updatePlayerBoard, eliminatePlayer])
+
+  if (!currentRoom) {
+    return (
+      <div className="min-h-screen bg-[#f4f4f1] flex items-center justify-center">
+        <div className="text-center">
+          <div className="text-2xl font-bold mb-4">Loading room...</div>
+          <div className="text-gray-600">Please wait while we connect you to the room.</div>
+        </div>
+      </div>
+    )
+  }
+
+  const wordLength = getRoomWordLength(currentRoom)
+  const maxAttempts = getRoomMaxAttempts(currentRoom)
+
+  return (
+    <div className="min-h-screen bg-[#f4f4f1] text-black font-serif">
+      <div className="container mx-auto px-4 py-8">
+        {/* Header */}
+        <motion.div
+          initial={{ opacity: 0, y: -20 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="text-center mb-8"
+        >
+          <h1 className="text-4xl font-black mb-2">👀 Spectating</h1>
+          <div className="text-xl text-gray-600 mb-4">
+            Room Code: <span className="font-mono font-bold text-[#1a1a1a]">{code}</span>
+          </div>
+          <div className="flex justify-center gap-2">
+            <span className="px-3 py-1 bg-gray-200 text-gray-800 text-sm font-semibold rounded-full">
+              {GAME_MODES[currentRoom.mode].icon} {GAME_MODES[currentRoom.mode].label}
+            </span>
+            <span className="px-3 py-1 bg-gray-200 text-gray-800 text-sm font-semibold rounded-full">
+              🔤 {wordLength} letters
+            </span>
+            <span className="px-3 py-1 bg-gray-200 text-gray-800 text-sm font-semibold rounded-full">
+              🎯 {maxAttempts} attempts
+            </span>
+            <span
+              className={`px-3 py-1 text-sm font-semibold rounded-full ${
+                isConnected ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'
+              }`}
+            >
+              {isConnected ? 'Live' : 'Offline'}
+            </span>
+          </div>
+        </motion.div>
+
+        {/* Error Message */}
+        {error && (
+          <motion.div
+            initial={{ opacity: 0, scale: 0.9 }}
+            animate={{ opacity: 1, scale: 1 }}
+            className="mb-6 p-4 bg-red-100 border border-red-300 text-red-700 rounded-lg text-center"
+          >
+            {error}
+          </motion.div>
+        )}
+
+        {/* Game Status */}
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          className="max-w-md mx-auto bg-white rounded-lg shadow-md p-4 mb-8 text-center"
+        >
+          {gameStatus === 'waiting' && (
+            <p className="text-gray-600">Waiting for the host to start the game...</p>
+          )}
+          {gameStatus === 'playing' && <p className="text-gray-600">🎮 Game in progress</p>}
+          {gameStatus === 'finished' && (
+            <>
+              <p className="text-xl font-bold mb-2">
+                {winner ? <span className="text-green-600">🎉 {winner} Wins!</span> : 'Game Over'}
+              </p>
+              {revealedSolution && (
+                <p className="text-gray-600">
+                  The word was <span className="font-bold text-[#1a1a1a]">{revealedSolution}</span>
+                </p>
+              )}
+            </>
+          )}
+        </motion.div>
+
+        {/* Player Boards */}
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6">
+          {currentRoom.players.map((player, index) => {
+            const isEliminated = player.eliminated || eliminatedPlayers.includes(player.id)
+            return (
+              <motion.div
+                key={player.id}
+                initial={{ opacity: 0, y: 20 }}
+                animate={{ opacity: 1, y: 0 }}
+                transition={{ delay: index * 0.1 }}
+                className={`bg-white rounded-lg shadow-md p-4 ${isEliminated ? 'opacity-60' : ''}`}
+              >
+                <div className="text-center font-semibold mb-3">
+                  {player.username}
+                  {player.id === currentRoom.hostId && (
+                    <span className="ml-2 px-2 py-1 bg-yellow-100 text-yellow-800 text-xs rounded-full">
+                      Host
+                    </span>
+                  )}
+                  {isEliminated && <span className="ml-2 text-red-600 text-sm">Eliminated</span>}
+                  {winner === player.username && <span className="ml-2">👑</span>}
+                  <div className="text-sm text-gray-500">{playerScores[player.id] ?? 0} pts</div>
+                </div>
+                <GameBoard
+                  board={playerBoards[player.id] ?? createEmptyBoard(maxAttempts, wordLength)}
+                  compact
+                />
+              </motion.div>
+            )
+          })}
+        </div>
+
+        {/* Back Button */}
+        <div className="text-center mt-8">
+          <button
+            onClick={() => {
+              socketService.leaveRoom(code)
+              navigate({ to: '/lobby' })
+            }}
+            className="px-6 py-3 border border-gray-300 text-gray-700 rounded-lg font-semibold hover:bg-gray-50 transition-colors"
+          >
+            Stop Watching
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,194 @@
+import { createFileRoute, useNavigate } from '@tanstack/react-router'
+import { useEffect, useState } from 'react'
+import { motion } from 'framer-motion'
+import type { GameMode } from '../stores/gameStore'
+import { useStatsStore } from '../stores/statsStore'
+import { getStatsSummary } from '../lib/stats'
+import { GAME_MODES } from '../lib/modes'
+import { formatElapsed } from '../lib/share'
+
+export const Route = createFileRoute('/stats')({
+  component: StatsPage
+})
+
+const RECENT_GAME_COUNT = 10
+
+const OUTCOME_LABELS = {
+  win: { label: 'Win', className: 'bg-green-100 text-green-800' },
+  loss: { label: 'Loss', className: 'bg-red-100 text-red-800' },
+  draw: { label: 'Draw', className: 'bg-gray-200 text-gray-800' }
+}
+
+function StatsPage() {
+  const navigate = useNavigate()
+  const { games, isLoaded, loadStats } = useStatsStore()
+  const [modeFilter, setModeFilter] = useState<GameMode | 'all'>('all')
+
+  useEffect(() => {
+    loadStats()
+  }, [loadStats])
+
+  const filteredGames =
+    modeFilter === 'all' ? games : games.filter((game) => game.mode === modeFilter)
+  const summary = getStatsSummary(filteredGames)
+  const mostSolved = Math.max(1, ...summary.distribution)
+  const recentGames = [...filteredGames]
+    .sort((a, b) => b.playedAt.localeCompare(a.playedAt))
+    .slice(0, RECENT_GAME_COUNT)
+  const lastGame = recentGames[0]
+
+  const tiles = [
+    { label: 'Played', value: summary.played },
+    { label: 'Win %', value: Math.round(summary.winRate) },
+    { label: 'Current Streak', value: summary.currentStreak },
+    { label: 'Max Streak', value: summary.maxStreak }
+  ]
+
+  return (
+    <div className="min-h-screen bg-[#f4f4f1] text-black font-serif px-4 py-8">
+      <div className="max-w-2xl mx-auto">
+        {/* Header */}
+        <motion.div
+          initial={{ opacity: 0, y: -20 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="text-center mb-8"
+        >
+          <h1 className="text-5xl font-black mb-4">Statistics</h1>
+          <p className="text-xl text-gray-600">
+            Every multiplayer game you have finished on this computer
+          </p>
+        </motion.div>
+
+        {/* Mode Filter */}
+        <div className="flex flex-wrap justify-center gap-2 mb-8">
+          {(['all', ...Object.keys(GAME_MODES)] as Array<GameMode | 'all'>).map((mode) => (
+            <button
+              key={mode}
+              onClick={() => setModeFilter(mode)}
+              className={`px-4 py-2 rounded-full text-sm font-semibold transition-colors ${
+                modeFilter === mode
+                  ? 'bg-[#1a1a1a] text-white'
+                  : 'bg-white text-gray-700 hover:bg-gray-100'
+              }`}
+            >
+              {mode === 'all' ? 'All Modes' : `${GAME_MODES[mode].icon} ${GAME_MODES[mode].label}`}
+            </button>
+          ))}
+        </div>
+
+        {!isLoaded ? (
+          <div className="text-center text-gray-600">Loading statistics...</div>
+        ) : (
+          <>
+            {/* Summary */}
+            <motion.div
+              initial={{ opacity: 0, scale: 0.9 }}
+              animate={{ opacity: 1, scale: 1 }}
+              transition={{ delay: 0.1 }}
+              className="bg-white rounded-lg shadow-md p-6 mb-8 grid grid-cols-4 gap-4 text-center"
+            >
+              {tiles.map((tile) => (
+                <div key={tile.label}>
+                  <div className="text-4xl font-bold text-[#1a1a1a]">{tile.value}</div>
+                  <div className="text-sm text-gray-600">{tile.label}</div>
+                </div>
+              ))}
+            </motion.div>
+
+            {/* Guess Distribution */}
+            <motion.div
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              transition={{ delay: 0.2 }}
+              className="bg-white rounded-lg shadow-md p-6 mb-8"
+            >
+              <h3 className="text-2xl font-bold mb-6 text-center">Guess Distribution</h3>
+              <div className="space-y-2">
+                {summary.distribution.map((count, index) => {
+                  const isLastGame = lastGame?.solved && lastGame.attempts === index + 1
+                  return (
+                    <div key={index} className="flex items-center gap-2">
+                      <span className="w-4 text-right font-bold">{index + 1}</span>
+                      <div className="flex-1">
+                        <motion.div
+                          initial={{ width: 0 }}
+                          animate={{ width: `${Math.max(8, (count / mostSolved) * 100)}%` }}
+                          transition={{ duration: 0.5, delay: 0.3 + index * 0.05 }}
+                          className={`px-2 py-0.5 text-right text-sm font-bold text-white rounded ${
+                            isLastGame ? 'bg-green-600' : 'bg-gray-500'
+                          }`}
+                        >
+                          {count}
+                        </motion.div>
+                      </div>
+                    </div>
+                  )
+                })}
+              </div>
+              {summary.averageTimeMs !== null && (
+                <p className="text-center text-sm text-gray-500 mt-4">
+                  Average solved game: ⏱ {formatElapsed(summary.averageTimeMs)}
+                </p>
+              )}
+            </motion.div>
+
+            {/* Recent Games */}
+            <motion.div
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              transition={{ delay: 0.3 }}
+              className="bg-white rounded-lg shadow-md p-6 mb-8"
+            >
+              <h3 className="text-2xl font-bold mb-6 text-center">Recent Games</h3>
+              {recentGames.length === 0 ? (
+                <p className="text-center text-gray-600">
+                  No games yet. Finish a game and it will show up here.
+                </p>
+              ) : (
+                <div className="space-y-3">
+                  {recentGames.map((game) => (
+                    <div
+                      key={game.id}
+                      className="flex items-center justify-between p-3 rounded-lg border-2 border-gray-200 bg-gray-50"
+                    >
+                      <div className="flex items-center gap-3">
+                        <span
+                          className={`px-2 py-1 rounded-full text-xs font-semibold ${OUTCOME_LABELS[game.outcome].className}`}
+                        >
+                          {OUTCOME_LABELS[game.outcome].label}
+                        </span>
+                        <div>
+                          <div className="font-semibold">
+                            {GAME_MODES[game.mode].icon} vs {game.opponents.join(', ') || 'nobody'}
+                          </div>
+                          <div className="text-xs text-gray-500">
+                            {new Date(game.playedAt).toLocaleString()}
+                          </div>
+                        </div>
+                      </div>
+                      <div className="text-right text-sm text-gray-600">
+                        <div>
+                          {game.solved ? game.attempts : 'X'}/{game.maxAttempts}
+                        </div>
+                        {game.timeMs !== null && <div>⏱ {formatElapsed(game.timeMs)}</div>}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </motion.div>
+          </>
+        )}
+
+        <div className="text-center">
+          <button
+            onClick={() => navigate({ to: '/lobby' })}
+            className="px-6 py-3 bg-[#1a1a1a] text-white rounded-lg font-semibold hover:bg-[#333] transition-colors"
+          >
+            Play a Game
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
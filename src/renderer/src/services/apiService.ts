@@ -1,6 +1,10 @@
 // API service for making HTTP requests to the backend
 // Supports both development and production environments
 
+import type { GameMode, Room, RoomSettings } from '../stores/gameStore';
+import { roomResponseSchema } from './protocol';
+import type { Schema } from '../lib/schema';
+
 // Environment configuration with fallbacks
 const isDevelopment = import.meta.env.DEV;
 const isProduction = import.meta.env.PROD;
@@ -32,24 +36,39 @@ const GAME_CONFIG = {
 };
 
 // API response interfaces
-export interface CreateRoomRequest {
+export interface CreateRoomRequest extends Partial<RoomSettings> {
   username: string
-  mode: 'duel' | 'battleRoyale'
+  // Profile id and avatar; the username may change or collide, the id doesn't
+  playerId?: string;
+  avatar?: string;
+  mode: GameMode;
 }
 
 export interface CreateRoomResponse {
   code: string
-  mode: 'duel' | 'battleRoyale'
+  mode: GameMode;
 }
 
 export interface JoinRoomRequest {
   code: string
   username: string
+  playerId?: string;
+  avatar?: string;
 }
 
 export interface JoinRoomResponse {
   success: boolean
-  room: any
+  room: Room;
+}
+
+export interface WatchRoomRequest {
+  code: string;
+  username: string;
+}
+
+export interface WatchRoomResponse {
+  success: boolean;
+  room: Room;
 }
 
 export interface ValidateWordRequest {
@@ -135,6 +154,16 @@ async function makeRequest<T>(
   }
 }
 
+// Responses that end up in app state are validated like socket payloads
+function validateResponse<T>(endpoint: string, schema: Schema<T>, data: unknown): T {
+  const result = schema.parse(data, endpoint);
+  if (!result.success) {
+    console.error('❌ Malformed server response:', result.error);
+    throw new ApiError(`Unexpected response from server (${result.error})`, 0, 'INVALID_RESPONSE');
+  }
+  return result.data;
+}
+
 // API service methods
 export const apiService = {
   // Create a new room
@@ -147,10 +176,20 @@ export const apiService = {
 
   // Join an existing room
   async joinRoom(data: JoinRoomRequest): Promise<JoinRoomResponse> {
-    return makeRequest<JoinRoomResponse>('/join-room', {
+    const response = await makeRequest<unknown>('/join-room', {
       method: 'POST',
       body: JSON.stringify(data),
     });
+    return validateResponse('/join-room', roomResponseSchema, response);
+  },
+
+  // Watch a room as a spectator; doesn't count towards maxPlayers
+  async watchRoom(data: WatchRoomRequest): Promise<WatchRoomResponse> {
+    const response = await makeRequest<unknown>('/watch-room', {
+      method: 'POST',
+      body: JSON.stringify(data)
+    });
+    return validateResponse('/watch-room', roomResponseSchema, response);
   },
 
   // Validate a custom word
@@ -162,8 +201,8 @@ export const apiService = {
   },
 
   // Get all rooms (for debugging/admin)
-  async getRooms(): Promise<{ rooms: any[]; total: number; timestamp: string }> {
-    return makeRequest<{ rooms: any[]; total: number; timestamp: string }>('/rooms', {
+  async getRooms(): Promise<{ rooms: Room[]; total: number; timestamp: string }> {
+    return makeRequest<{ rooms: Room[]; total: number; timestamp: string }>('/rooms', {
       method: 'GET',
     });
   },
@@ -0,0 +1,124 @@
+import { describe, expect, it } from '@jest/globals'
+import { SERVER_EVENT_SCHEMAS, roomSchema } from './protocol'
+
+const room = {
+  code: 'ABCD',
+  hostId: 'socket-a',
+  players: [{ id: 'socket-a', username: 'alice', score: 0 }],
+  solutionWord: null,
+  status: 'playing',
+  mode: 'duel',
+  maxPlayers: 2,
+  gameStartTime: '2025-01-01T12:00:00.000Z'
+}
+
+describe('roomSchema', () => {
+  it('accepts a room and turns its start time into a date', () => {
+    const result = roomSchema.parse(room)
+    expect(result.success).toBe(true)
+    if (result.success) expect(result.data.gameStartTime).toEqual(new Date(room.gameStartTime))
+  })
+
+  it('rejects an unknown mode or status', () => {
+    expect(roomSchema.parse({ ...room, mode: 'solo' })).toEqual({
+      success: false,
+      error: "payload.mode: expected 'duel' | 'battleRoyale' | 'chessClock', got 'solo'"
+    })
+    expect(roomSchema.parse({ ...room, status: 'paused' }).success).toBe(false)
+  })
+
+  it('rejects a start time that is not a real date', () => {
+    expect(roomSchema.parse({ ...room, gameStartTime: 'soon' })).toEqual({
+      success: false,
+      error: "payload.gameStartTime: expected date, got 'soon'"
+    })
+  })
+
+  it('rejects a malformed player', () => {
+    expect(roomSchema.parse({ ...room, players: [{ id: 'socket-a', score: 0 }] })).toEqual({
+      success: false,
+      error: 'payload.players[0].username: expected string, got undefined'
+    })
+  })
+})
+
+describe('SERVER_EVENT_SCHEMAS', () => {
+  const guess = {
+    roomCode: 'ABCD',
+    username: 'alice',
+    attemptNumber: 0,
+    boardState: [{ letter: 'C', status: 'correct' }]
+  }
+
+  it('accepts a well-formed guess', () => {
+    expect(SERVER_EVENT_SCHEMAS['guess-submitted'].parse(guess)).toEqual({
+      success: true,
+      data: guess
+    })
+  })
+
+  it('rejects a guess that does not say whose it is', () => {
+    expect(
+      SERVER_EVENT_SCHEMAS['guess-submitted'].parse({ ...guess, username: undefined })
+    ).toEqual({
+      success: false,
+      error: 'payload.username: expected string, got undefined'
+    })
+  })
+
+  it('rejects a guess with a bad tile status', () => {
+    const result = SERVER_EVENT_SCHEMAS['guess-submitted'].parse({
+      ...guess,
+      boardState: [{ letter: 'C', status: 'green' }]
+    })
+    expect(result.success).toBe(false)
+    if (!result.success) expect(result.error).toMatch(/^payload\.boardState\[0\]\.status:/)
+  })
+
+  it('rejects payloads that are not objects', () => {
+    expect(SERVER_EVENT_SCHEMAS['game-over'].parse('alice won').success).toBe(false)
+    expect(SERVER_EVENT_SCHEMAS['game-error'].parse(undefined).success).toBe(false)
+  })
+
+  it('rejects round results with missing fields', () => {
+    const result = SERVER_EVENT_SCHEMAS['round-over'].parse({
+      roomCode: 'ABCD',
+      results: [{ playerId: 'socket-a', username: 'alice', solved: true, timeMs: 1000 }]
+    })
+    expect(result).toEqual({
+      success: false,
+      error: 'payload.results[0].attempts: expected number, got undefined'
+    })
+  })
+
+  it('validates the score totals in a room snapshot', () => {
+    const snapshot = { roomCode: 'ABCD', room, status: 'playing', boards: {} }
+    expect(
+      SERVER_EVENT_SCHEMAS['room-snapshot'].parse({ ...snapshot, scores: { 'socket-a': 120 } })
+        .success
+    ).toBe(true)
+    expect(
+      SERVER_EVENT_SCHEMAS['room-snapshot'].parse({ ...snapshot, scores: { 'socket-a': null } })
+        .success
+    ).toBe(false)
+  })
+
+  it('validates the saved chess clock in a room snapshot', () => {
+    const snapshot = { roomCode: 'ABCD', room, status: 'playing', boards: {} }
+    const chessClock = {
+      remainingMs: { 'socket-a': 60_000 },
+      activePlayerId: 'socket-a',
+      turnStartedAt: 5
+    }
+
+    expect(SERVER_EVENT_SCHEMAS['room-snapshot'].parse({ ...snapshot, chessClock }).success).toBe(
+      true
+    )
+    expect(
+      SERVER_EVENT_SCHEMAS['room-snapshot'].parse({
+        ...snapshot,
+        chessClock: { ...chessClock, remainingMs: { 'socket-a': '60s' } }
+      }).success
+    ).toBe(false)
+  })
+})
@@ -0,0 +1,264 @@
+// The socket protocol shared by every part of the app that talks to the game server. Outgoing
+// events are only type-checked; incoming ones are also validated, since the server is outside
+// our control and a bad payload shouldn't be able to crash a page.
+
+import type { GameMode, GameTile, Player, Room, Spectator } from '../stores/gameStore'
+import type { EliminationRule, RoundResult } from '../lib/rounds'
+import type { RoomSnapshot } from '../lib/session'
+import type { ChessClockState } from '../lib/chessClock'
+import {
+  array,
+  boolean,
+  date,
+  literal,
+  nullable,
+  number,
+  object,
+  optional,
+  record,
+  string
+} from '../lib/schema'
+import type { Schema } from '../lib/schema'
+
+// Client → server
+
+export interface JoinRoomPayload {
+  username: string
+  roomCode: string
+  playerId?: string
+  avatar?: string
+}
+
+export interface NextRoundPayload {
+  roomCode: string
+  roundNumber: number
+  customWord: string
+  eliminatedPlayerIds?: string[]
+  seriesScore?: Record<string, number>
+}
+
+export interface SubmitGuessPayload {
+  roomCode: string
+  username: string
+  guess: string
+  boardState: string[][]
+  attemptNumber: number
+  playerId?: string
+}
+
+export interface RejoinRoomPayload {
+  roomCode: string
+  playerId: string
+  username: string
+  isSpectator: boolean
+  rejoinToken: string | null
+}
+
+export type ClientEvent =
+  | { type: 'join-room'; payload: JoinRoomPayload }
+  | { type: 'watch-room'; payload: { username: string; roomCode: string } }
+  | { type: 'rejoin-room'; payload: RejoinRoomPayload }
+  | { type: 'leave-room'; payload: { roomCode: string } }
+  | { type: 'start-game'; payload: { roomCode: string; customWord?: string } }
+  | { type: 'next-round'; payload: NextRoundPayload }
+  | { type: 'submit-guess'; payload: SubmitGuessPayload }
+  | { type: 'time-up'; payload: { roomCode: string; username: string; attemptsUsed: number } }
+  | { type: 'clock-flag'; payload: { roomCode: string; username: string } }
+  | { type: 'clock-ping'; payload: { sentAt: number } }
+
+export type ClientEventType = ClientEvent['type']
+export type ClientPayload<E extends ClientEventType> = Extract<ClientEvent, { type: E }>['payload']
+
+// Server → client
+
+export interface GameStartingPayload {
+  roomCode: string
+  // Server time the countdown ends
+  startsAt?: number
+}
+
+export interface GuessSubmittedPayload {
+  roomCode: string
+  username: string
+  // The guesser's stable id, when the server passes it on
+  playerId?: string
+  attemptNumber: number
+  boardState: GameTile[]
+  // Server time the guess arrived
+  submittedAt?: number
+}
+
+export interface GameOverPayload {
+  roomCode: string
+  winner?: string | null
+  solution?: string | null
+  results?: RoundResult[]
+}
+
+export interface PlayerEliminatedPayload {
+  roomCode: string
+  playerId?: string
+  username?: string
+}
+
+export interface RoundOverPayload {
+  roomCode: string
+  results: RoundResult[]
+}
+
+export interface RoundStartedPayload {
+  roomCode: string
+  roundNumber: number
+  room?: Room
+}
+
+export type ServerEvent =
+  | { type: 'room-updated'; payload: Room }
+  | { type: 'game-starting'; payload: GameStartingPayload }
+  | { type: 'game-started'; payload: { roomCode?: string } }
+  | { type: 'guess-submitted'; payload: GuessSubmittedPayload }
+  | { type: 'game-over'; payload: GameOverPayload }
+  | { type: 'game-error'; payload: { message: string } }
+  | { type: 'player-eliminated'; payload: PlayerEliminatedPayload }
+  | { type: 'round-over'; payload: RoundOverPayload }
+  | { type: 'round-started'; payload: RoundStartedPayload }
+  | { type: 'session-token'; payload: { roomCode: string; rejoinToken: string } }
+  | { type: 'room-snapshot'; payload: RoomSnapshot }
+  | { type: 'rejoin-failed'; payload: { roomCode: string; reason?: string } }
+
+export type ServerEventType = ServerEvent['type']
+export type ServerPayload<E extends ServerEventType> = Extract<ServerEvent, { type: E }>['payload']
+
+export interface ClockPingResponse {
+  serverTime: number
+}
+
+// A server message that failed validation and was dropped
+export interface ProtocolError {
+  event: ServerEventType
+  message: string
+  payload: unknown
+}
+
+// Schemas, annotated with the app's own types so the two can't drift apart
+
+const gameModeSchema: Schema<GameMode> = literal('duel', 'battleRoyale', 'chessClock')
+
+const eliminationRuleSchema: Schema<EliminationRule> = literal(
+  'slowest',
+  'worstScore',
+  'bottomHalf'
+)
+
+const tileSchema: Schema<GameTile> = object({
+  letter: string(),
+  status: literal('correct', 'present', 'absent', 'unused')
+})
+
+const playerSchema: Schema<Player> = object({
+  id: string(),
+  username: string(),
+  playerId: optional(string()),
+  avatar: optional(string()),
+  score: number(),
+  eliminated: optional(boolean()),
+  guesses: optional(array(object({ word: string(), attempt: number() }))),
+  won: optional(boolean())
+})
+
+const spectatorSchema: Schema<Spectator> = object({
+  id: string(),
+  username: string()
+})
+
+// Arrives as an ISO string over the wire
+const dateSchema: Schema<Date> = date()
+
+export const roomSchema: Schema<Room> = object({
+  code: string(),
+  hostId: string(),
+  players: array(playerSchema),
+  spectators: optional(array(spectatorSchema)),
+  solutionWord: nullable(string()),
+  status: literal('waiting', 'playing', 'finished'),
+  mode: gameModeSchema,
+  maxPlayers: number(),
+  gameStartTime: optional(nullable(dateSchema)),
+  roundNumber: optional(number()),
+  seriesScore: optional(record(number())),
+  hardMode: optional(boolean()),
+  wordLength: optional(number()),
+  maxAttempts: optional(number()),
+  strictGuesses: optional(boolean()),
+  eliminationRule: optional(eliminationRuleSchema),
+  seriesLength: optional(number()),
+  timeLimit: optional(number()),
+  clockTime: optional(number()),
+  clockIncrement: optional(number())
+})
+
+const chessClockSchema: Schema<ChessClockState> = object({
+  remainingMs: record(number()),
+  activePlayerId: nullable(string()),
+  turnStartedAt: nullable(number())
+})
+
+const roundResultSchema: Schema<RoundResult> = object({
+  playerId: string(),
+  username: string(),
+  solved: boolean(),
+  attempts: number(),
+  timeMs: nullable(number())
+})
+
+export const SERVER_EVENT_SCHEMAS: { [E in ServerEventType]: Schema<ServerPayload<E>> } = {
+  'room-updated': roomSchema,
+  'game-starting': object({ roomCode: string(), startsAt: optional(number()) }),
+  'game-started': object({ roomCode: optional(string()) }),
+  'guess-submitted': object({
+    roomCode: string(),
+    username: string(),
+    playerId: optional(string()),
+    attemptNumber: number(),
+    boardState: array(tileSchema),
+    submittedAt: optional(number())
+  }),
+  'game-over': object({
+    roomCode: string(),
+    winner: optional(nullable(string())),
+    solution: optional(nullable(string())),
+    results: optional(array(roundResultSchema))
+  }),
+  'game-error': object({ message: string() }),
+  'player-eliminated': object({
+    roomCode: string(),
+    playerId: optional(string()),
+    username: optional(string())
+  }),
+  'round-over': object({ roomCode: string(), results: array(roundResultSchema) }),
+  'round-started': object({
+    roomCode: string(),
+    roundNumber: number(),
+    room: optional(roomSchema)
+  }),
+  'session-token': object({ roomCode: string(), rejoinToken: string() }),
+  'room-snapshot': object({
+    roomCode: string(),
+    room: roomSchema,
+    status: literal('waiting', 'playing', 'finished'),
+    boards: record(array(array(tileSchema))),
+    winner: optional(nullable(string())),
+    rejoinToken: optional(string()),
+    chessClock: optional(nullable(chessClockSchema)),
+    scores: optional(record(number()))
+  }),
+  'rejoin-failed': object({ roomCode: string(), reason: optional(string()) })
+}
+
+export const clockPingResponseSchema: Schema<ClockPingResponse> = object({ serverTime: number() })
+
+// REST responses that carry a room
+export const roomResponseSchema: Schema<{ success: boolean; room: Room }> = object({
+  success: boolean(),
+  room: roomSchema
+})
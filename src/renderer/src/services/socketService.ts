@@ -1,4 +1,29 @@
 import { io, Socket } from 'socket.io-client';
+import { createClockSample, estimateClockOffset } from '../lib/clockSync';
+import type { ClockSample } from '../lib/clockSync';
+import { clearSession, loadSession, saveSession } from '../lib/session';
+import type { GameSession, RoomSnapshot } from '../lib/session';
+import { clockPingResponseSchema, SERVER_EVENT_SCHEMAS } from './protocol';
+import type {
+  ClientEventType,
+  ClientPayload,
+  GameOverPayload,
+  GameStartingPayload,
+  GuessSubmittedPayload,
+  PlayerEliminatedPayload,
+  ProtocolError,
+  RoundOverPayload,
+  RoundStartedPayload,
+  ServerEventType,
+  ServerPayload
+} from './protocol';
+import type { Room } from '../stores/gameStore';
+import type { Schema } from '../lib/schema';
+
+// Pings sent per clock sync, and how many recent samples feed the offset estimate
+const CLOCK_SYNC_PINGS = 5;
+const MAX_CLOCK_SAMPLES = 15;
+const CLOCK_PING_TIMEOUT = 2000;
 
 // Socket service for managing Socket.IO connections and events
 class SocketService {
@@ -8,6 +33,16 @@ class SocketService {
   private maxReconnectAttempts = 5;
   private connectionPromise: Promise<void> | null = null;
   private connectionTimeout: NodeJS.Timeout | null = null;
+  // Milliseconds to add to the local clock to get the server's time
+  private clockOffset = 0;
+  private clockSamples: ClockSample[] = [];
+  // The room this client is in; rejoined automatically whenever the socket reconnects
+  private activeSession: GameSession | null = null;
+  private hasConnected = false;
+  // Kept outside the socket so subscriptions survive it being recreated
+  private sessionRestoredListeners = new Set<(snapshot: RoomSnapshot) => void>();
+  private sessionLostListeners = new Set<(reason: string) => void>();
+  private protocolErrorListeners = new Set<(error: ProtocolError) => void>();
 
   // Get socket URL from environment variables with fallbacks
   private getSocketUrl(): string {
@@ -88,13 +123,67 @@ class SocketService {
           console.log('✅ Connected to Socket.IO server successfully');
           console.log('🆔 Socket ID:', this.socket?.id);
           
+          const isReconnect = this.hasConnected;
+          this.hasConnected = true;
           this.clearConnectionTimeout();
           this.isConnected = true;
           this.reconnectAttempts = 0;
           this.connectionPromise = null;
           resolve();
+
+          // Also runs on every automatic reconnect, which emits 'connect' on the socket again
+          this.syncClock().catch((error) =>
+            console.warn('⚠️ Clock sync failed, using local time:', error)
+          );
+
+          // A new connection is a new socket id on the server, so claim the seat again
+          if (isReconnect && this.activeSession) {
+            this.rejoinRoom(this.activeSession).catch((error) =>
+              console.warn('⚠️ Automatic rejoin failed:', error)
+            );
+          }
         });
 
+        // Session handling lives here rather than in the routes, so it keeps working across pages
+        this.socket.on('session-token', (raw: unknown) =>
+          this.receive('session-token', raw, (data) => {
+            if (this.activeSession && data.roomCode === this.activeSession.roomCode) {
+              this.activeSession = saveSession({
+                ...this.activeSession,
+                rejoinToken: data.rejoinToken
+              });
+            }
+          })
+        );
+
+        this.socket.on('room-snapshot', (raw: unknown) =>
+          this.receive('room-snapshot', raw, (snapshot) => {
+            if (!this.activeSession || snapshot.roomCode !== this.activeSession.roomCode) return;
+            console.log('📦 Room snapshot received:', {
+              roomCode: snapshot.roomCode,
+              status: snapshot.status
+            });
+            if (snapshot.rejoinToken) {
+              this.activeSession = saveSession({
+                ...this.activeSession,
+                rejoinToken: snapshot.rejoinToken
+              });
+            }
+            this.sessionRestoredListeners.forEach((listener) => listener(snapshot));
+          })
+        );
+
+        this.socket.on('rejoin-failed', (raw: unknown) =>
+          this.receive('rejoin-failed', raw, (data) => {
+            if (!this.activeSession || data.roomCode !== this.activeSession.roomCode) return;
+            console.warn('⚠️ Could not rejoin room:', data);
+            this.endSession();
+            this.sessionLostListeners.forEach((listener) =>
+              listener(data.reason ?? 'The room is no longer available')
+            );
+          })
+        );
+
         // Connection error
         this.socket.on('connect_error', (error) => {
           console.error('❌ Socket.IO connection error:', error.message || error);
@@ -205,8 +294,8 @@ class SocketService {
     }
   }
 
-  // Join a room
-  async joinRoom(username: string, roomCode: string): Promise<void> {
+  // Estimate the server clock offset from a few ping round-trips, so timers line up across players
+  async syncClock(pings: number = CLOCK_SYNC_PINGS): Promise<number> {
     try {
       await this.ensureConnection();
       
@@ -214,8 +303,195 @@ class SocketService {
         throw new Error('Failed to establish socket connection');
       }
 
-      console.log('🚪 Joining room:', { username, roomCode });
-      this.socket.emit('join-room', { username, roomCode });
+      // Sequential, so one ping's queueing delay doesn't skew the next
+      for (let i = 0; i < pings; i++) {
+        const sample = await this.pingServerClock();
+        this.clockSamples = [...this.clockSamples, sample].slice(-MAX_CLOCK_SAMPLES);
+      }
+
+      this.clockOffset = estimateClockOffset(this.clockSamples);
+      console.log('⏱️ Clock synced with server:', {
+        offset: this.clockOffset,
+        samples: this.clockSamples.length
+      });
+      return this.clockOffset;
+    } catch (error) {
+      console.error('❌ Cannot sync clock:', error);
+      throw new Error(
+        `Failed to sync clock: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  private pingServerClock(): Promise<ClockSample> {
+    return new Promise((resolve, reject) => {
+      if (!this.socket) {
+        reject(new Error('Socket not initialized'));
+        return;
+      }
+
+      const sentAt = Date.now();
+      this.socket
+        .timeout(CLOCK_PING_TIMEOUT)
+        .emit(
+          'clock-ping',
+          { sentAt } satisfies ClientPayload<'clock-ping'>,
+          (error: Error | null, response: unknown) => {
+            if (error) {
+              reject(error);
+              return;
+            }
+            const result = clockPingResponseSchema.parse(response, 'clock-ping');
+            if (!result.success) {
+              reject(new Error(`Invalid clock-ping response: ${result.error}`));
+              return;
+            }
+            resolve(createClockSample(sentAt, result.data.serverTime, Date.now()));
+          }
+        );
+    });
+  }
+
+  // Current time on the server's clock (ms since epoch); falls back to local time until synced
+  now(): number {
+    return Date.now() + this.clockOffset;
+  }
+
+  getClockOffset(): number {
+    return this.clockOffset;
+  }
+
+  // Remember the room so it can be rejoined after a dropped connection or a restart
+  startSession(session: Omit<GameSession, 'savedAt' | 'rejoinToken'>): void {
+    const previous = this.activeSession?.roomCode === session.roomCode ? this.activeSession : null;
+    this.activeSession = saveSession({
+      chessClock: previous?.chessClock ?? null,
+      scores: previous?.scores ?? {},
+      ...session,
+      rejoinToken: previous?.rejoinToken ?? null
+    });
+  }
+
+  // Keeps the saved session in step with game state the server may not hold, like the chess clock
+  updateSession(changes: Partial<Pick<GameSession, 'chessClock' | 'scores'>>): void {
+    if (!this.activeSession) return;
+    this.activeSession = saveSession({ ...this.activeSession, ...changes });
+  }
+
+  endSession(): void {
+    this.activeSession = null;
+    clearSession();
+  }
+
+  getActiveSession(): GameSession | null {
+    return this.activeSession;
+  }
+
+  // The session left behind by a previous run of the app, if it hasn't expired
+  getSavedSession(): GameSession | null {
+    return this.activeSession ?? loadSession();
+  }
+
+  // Reclaim a seat; the server answers with room-snapshot, or rejoin-failed if the room is gone
+  async rejoinRoom(session: GameSession): Promise<void> {
+    try {
+      this.activeSession = session;
+      await this.ensureConnection();
+
+      if (!this.socket || !this.isConnected) {
+        throw new Error('Failed to establish socket connection');
+      }
+
+      const { roomCode, playerId, username, isSpectator, rejoinToken } = session;
+      console.log('♻️ Rejoining room:', { roomCode, playerId, username, isSpectator });
+      this.send('rejoin-room', { roomCode, playerId, username, isSpectator, rejoinToken });
+    } catch (error) {
+      console.error('❌ Cannot rejoin room:', error);
+      throw new Error(
+        `Failed to rejoin room: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  // Leave on purpose: the server frees the seat and nothing is rejoined afterwards
+  leaveRoom(roomCode: string): void {
+    console.log('👋 Leaving room:', roomCode);
+    this.send('leave-room', { roomCode });
+    this.endSession();
+    this.disconnect();
+  }
+
+  onSessionRestored(callback: (snapshot: RoomSnapshot) => void): () => void {
+    this.sessionRestoredListeners.add(callback);
+    return () => this.sessionRestoredListeners.delete(callback);
+  }
+
+  onSessionLost(callback: (reason: string) => void): () => void {
+    this.sessionLostListeners.add(callback);
+    return () => this.sessionLostListeners.delete(callback);
+  }
+
+  // Outgoing events go through here so their payloads are type-checked against the protocol
+  private send<E extends ClientEventType>(event: E, payload: ClientPayload<E>): void {
+    this.socket?.emit(event, payload);
+  }
+
+  // Payloads are validated before any page sees them; a malformed one is reported and dropped
+  private receive<E extends ServerEventType>(
+    event: E,
+    raw: unknown,
+    callback: (payload: ServerPayload<E>) => void
+  ): void {
+    const schema: Schema<ServerPayload<E>> = SERVER_EVENT_SCHEMAS[event];
+    const result = schema.parse(raw, event);
+    if (result.success) {
+      callback(result.data);
+      return;
+    }
+
+    const error: ProtocolError = { event, message: result.error, payload: raw };
+    console.error('❌ Malformed server message:', error);
+    this.protocolErrorListeners.forEach((listener) => listener(error));
+  }
+
+  private listen<E extends ServerEventType>(
+    event: E,
+    callback: (payload: ServerPayload<E>) => void,
+    label: string
+  ): () => void {
+    if (!this.socket) {
+      console.warn(`⚠️ Socket not initialized for ${label} listener`);
+      return () => {}; // Return empty cleanup function
+    }
+
+    const handler = (raw: unknown): void => this.receive(event, raw, callback);
+    // The socket itself is untyped; `event` was already narrowed by the signature
+    const name: string = event;
+    this.socket.on(name, handler);
+    return () => this.socket?.off(name, handler);
+  }
+
+  // Malformed messages from the server, for pages that want to tell the player something went wrong
+  onProtocolError(callback: (error: ProtocolError) => void): () => void {
+    this.protocolErrorListeners.add(callback);
+    return () => this.protocolErrorListeners.delete(callback);
+  }
+
+  // Join a room
+  async joinRoom(
+    username: string,
+    roomCode: string,
+    identity?: { playerId: string; avatar?: string }
+  ): Promise<void> {
+    try {
+      await this.ensureConnection();
+
+      if (!this.socket || !this.isConnected) {
+        throw new Error('Failed to establish socket connection');
+      }
+
+      console.log('🚪 Joining room:', { username, roomCode, ...identity });
+      this.send('join-room', { username, roomCode, ...identity });
       
     } catch (error) {
       console.error('❌ Cannot join room:', error);
@@ -223,6 +499,25 @@ class SocketService {
     }
   }
 
+  // Watch a room as a spectator: receives room broadcasts but can't submit guesses
+  async watchRoom(username: string, roomCode: string): Promise<void> {
+    try {
+      await this.ensureConnection();
+
+      if (!this.socket || !this.isConnected) {
+        throw new Error('Failed to establish socket connection');
+      }
+
+      console.log('👀 Watching room:', { username, roomCode });
+      this.send('watch-room', { username, roomCode });
+    } catch (error) {
+      console.error('❌ Cannot watch room:', error);
+      throw new Error(
+        `Failed to watch room: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
   // Start a game
   async startGame(roomCode: string, customWord?: string): Promise<void> {
     try {
@@ -233,7 +528,7 @@ class SocketService {
       }
 
       console.log('🎮 Starting game:', { roomCode, customWord });
-      this.socket.emit('start-game', { roomCode, customWord });
+      this.send('start-game', { roomCode, customWord });
       
     } catch (error) {
       console.error('❌ Cannot start game:', error);
@@ -241,8 +536,43 @@ class SocketService {
     }
   }
 
+  // Host only: begin the next Battle Royale round or series game once the intermission ends. The
+  // server applies the eliminations and answers with round-started, or game-over if one player is left.
+  async nextRound(
+    roomCode: string,
+    round: {
+      roundNumber: number;
+      customWord: string;
+      eliminatedPlayerIds?: string[];
+      seriesScore?: Record<string, number>;
+    }
+  ): Promise<void> {
+    try {
+      await this.ensureConnection();
+
+      if (!this.socket || !this.isConnected) {
+        throw new Error('Failed to establish socket connection');
+      }
+
+      console.log('🔁 Starting next round:', { roomCode, ...round });
+      this.send('next-round', { roomCode, ...round });
+    } catch (error) {
+      console.error('❌ Cannot start next round:', error);
+      throw new Error(
+        `Failed to start next round: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
   // Submit a guess
-  async submitGuess(roomCode: string, username: string, guess: string, boardState: string[][], attemptNumber: number): Promise<void> {
+  async submitGuess(
+    roomCode: string,
+    username: string,
+    guess: string,
+    boardState: string[][],
+    attemptNumber: number,
+    playerId?: string
+  ): Promise<void> {
     try {
       await this.ensureConnection();
       
@@ -251,7 +581,7 @@ class SocketService {
       }
 
       console.log('📝 Submitting guess:', { roomCode, username, guess, attemptNumber });
-      this.socket.emit('submit-guess', { roomCode, username, guess, boardState, attemptNumber });
+      this.send('submit-guess', { roomCode, username, guess, boardState, attemptNumber, playerId });
       
     } catch (error) {
       console.error('❌ Cannot submit guess:', error);
@@ -259,59 +589,80 @@ class SocketService {
     }
   }
 
-  // Event listeners - these don't need connection checks since they're just setting up handlers
-  onRoomUpdated(callback: (room: any) => void): () => void {
-    if (!this.socket) {
-      console.warn('⚠️ Socket not initialized for room updates listener');
-      return () => {}; // Return empty cleanup function
+  // Report that the player's clock ran out; their remaining attempts are forfeited
+  async reportTimeUp(roomCode: string, username: string, attemptsUsed: number): Promise<void> {
+    try {
+      await this.ensureConnection();
+
+      if (!this.socket || !this.isConnected) {
+        throw new Error('Failed to establish socket connection');
+      }
+
+      console.log('⏰ Reporting time up:', { roomCode, username, attemptsUsed });
+      this.send('time-up', { roomCode, username, attemptsUsed });
+    } catch (error) {
+      console.error('❌ Cannot report time up:', error);
+      throw new Error(
+        `Failed to report time up: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
     }
-    this.socket.on('room-updated', callback);
-    return () => this.socket?.off('room-updated', callback);
   }
 
-  onGameStarted(callback: (data: any) => void): () => void {
-    if (!this.socket) {
-      console.warn('⚠️ Socket not initialized for game started listener');
-      return () => {};
+  // Chess clock: report that the player's time bank ran out, which loses the game
+  async reportFlag(roomCode: string, username: string): Promise<void> {
+    try {
+      await this.ensureConnection();
+
+      if (!this.socket || !this.isConnected) {
+        throw new Error('Failed to establish socket connection');
+      }
+
+      console.log('⌛ Reporting flag:', { roomCode, username });
+      this.send('clock-flag', { roomCode, username });
+    } catch (error) {
+      console.error('❌ Cannot report flag:', error);
+      throw new Error(
+        `Failed to report flag: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
     }
-    this.socket.on('game-started', callback);
-    return () => this.socket?.off('game-started', callback);
   }
 
-  onGuessSubmitted(callback: (data: any) => void): () => void {
-    if (!this.socket) {
-      console.warn('⚠️ Socket not initialized for guess submitted listener');
-      return () => {};
-    }
-    this.socket.on('guess-submitted', callback);
-    return () => this.socket?.off('guess-submitted', callback);
+  // Event listeners - these don't need connection checks since they're just setting up handlers
+  onRoomUpdated(callback: (room: Room) => void): () => void {
+    return this.listen('room-updated', callback, 'room updates');
   }
 
-  onGameOver(callback: (data: any) => void): () => void {
-    if (!this.socket) {
-      console.warn('⚠️ Socket not initialized for game over listener');
-      return () => {};
-    }
-    this.socket.on('game-over', callback);
-    return () => this.socket?.off('game-over', callback);
+  onGameStarted(callback: (data: ServerPayload<'game-started'>) => void): () => void {
+    return this.listen('game-started', callback, 'game started');
   }
 
-  onGameError(callback: (data: any) => void): () => void {
-    if (!this.socket) {
-      console.warn('⚠️ Socket not initialized for game error listener');
-      return () => {};
-    }
-    this.socket.on('game-error', callback);
-    return () => this.socket?.off('game-error', callback);
+  // Sent to the whole room when the host starts: everyone counts down to the same server `startsAt`
+  onGameStarting(callback: (data: GameStartingPayload) => void): () => void {
+    return this.listen('game-starting', callback, 'game starting');
   }
 
-  onPlayerEliminated(callback: (data: any) => void): () => void {
-    if (!this.socket) {
-      console.warn('⚠️ Socket not initialized for player eliminated listener');
-      return () => {};
-    }
-    this.socket.on('player-eliminated', callback);
-    return () => this.socket?.off('player-eliminated', callback);
+  onGuessSubmitted(callback: (data: GuessSubmittedPayload) => void): () => void {
+    return this.listen('guess-submitted', callback, 'guess submitted');
+  }
+
+  onGameOver(callback: (data: GameOverPayload) => void): () => void {
+    return this.listen('game-over', callback, 'game over');
+  }
+
+  onGameError(callback: (data: ServerPayload<'game-error'>) => void): () => void {
+    return this.listen('game-error', callback, 'game error');
+  }
+
+  onPlayerEliminated(callback: (data: PlayerEliminatedPayload) => void): () => void {
+    return this.listen('player-eliminated', callback, 'player eliminated');
+  }
+
+  onRoundOver(callback: (data: RoundOverPayload) => void): () => void {
+    return this.listen('round-over', callback, 'round over');
+  }
+
+  onRoundStarted(callback: (data: RoundStartedPayload) => void): () => void {
+    return this.listen('round-started', callback, 'round started');
   }
 
   // Get connection info
@@ -324,7 +675,10 @@ class SocketService {
       socketExists: !!this.socket,
       socketId: this.socket?.id || 'N/A',
       socketConnected: this.socket?.connected || false,
-      hasConnectionPromise: !!this.connectionPromise
+      hasConnectionPromise: !!this.connectionPromise,
+      clockOffset: this.clockOffset,
+      clockSamples: this.clockSamples.length,
+      activeSession: this.activeSession?.roomCode ?? null
     };
   }
 
@@ -388,7 +742,11 @@ class SocketService {
   }
 
   // Test backend connectivity
-  async testBackendConnectivity(): Promise<{ success: boolean; error?: string; details?: any }> {
+  async testBackendConnectivity(): Promise<{
+    success: boolean;
+    error?: string;
+    details?: unknown;
+  }> {
     const socketUrl = this.getSocketUrl();
     console.log('🧪 Testing backend connectivity to:', socketUrl);
     
@@ -443,7 +801,11 @@ class SocketService {
   }
 
   // Test Socket.IO specific connectivity
-  async testSocketIOConnectivity(): Promise<{ success: boolean; error?: string; details?: any }> {
+  async testSocketIOConnectivity(): Promise<{
+    success: boolean;
+    error?: string;
+    details?: unknown;
+  }> {
     const socketUrl = this.getSocketUrl();
     console.log('🔌 Testing Socket.IO connectivity to:', socketUrl);
     
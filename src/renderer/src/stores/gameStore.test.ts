@@ -0,0 +1,124 @@
+import { describe, expect, it, jest } from '@jest/globals'
+import type { GameTile, Room } from './gameStore'
+import type { GameSession } from '../lib/session'
+import { calculateScore, SCORING_WEIGHTS } from '../lib/scoring'
+
+// The real service reads Vite's import.meta.env, which only exists in the app build
+jest.mock('../services/apiService', () => ({
+  apiService: { getGameConfig: () => ({ maxGuessAttempts: 6, gameTimeout: 300000 }) }
+}))
+
+import {
+  createEmptyBoard,
+  getLetterStatuses,
+  selectLetterStatuses,
+  useGameStore
+} from './gameStore'
+
+function row(letters: string, statuses: string): GameTile[] {
+  const byCode = { c: 'correct', p: 'present', a: 'absent' } as const
+  return letters.split('').map((letter, i) => ({
+    letter,
+    status: byCode[statuses[i] as keyof typeof byCode]
+  }))
+}
+
+describe('getLetterStatuses', () => {
+  it('keeps the best status each letter has reached', () => {
+    const board = [row('CRANE', 'apaaa'), row('ROUTE', 'cpaaa'), row('RIVER', 'caaac')]
+    expect(getLetterStatuses(board)).toEqual({
+      C: 'absent',
+      R: 'correct',
+      A: 'absent',
+      N: 'absent',
+      E: 'absent',
+      O: 'present',
+      U: 'absent',
+      T: 'absent',
+      I: 'absent',
+      V: 'absent'
+    })
+  })
+
+  it('does not downgrade a letter seen again as absent', () => {
+    const board = [row('EERIE', 'caaaa')]
+    expect(getLetterStatuses(board).E).toBe('correct')
+  })
+
+  it('skips rows without feedback', () => {
+    expect(getLetterStatuses(createEmptyBoard(6, 5))).toEqual({})
+  })
+})
+
+describe('selectLetterStatuses', () => {
+  it('reuses the result until the board changes', () => {
+    const { updateGameBoard } = useGameStore.getState()
+    updateGameBoard([row('CRANE', 'caaaa')])
+
+    const first = selectLetterStatuses(useGameStore.getState())
+    expect(selectLetterStatuses(useGameStore.getState())).toBe(first)
+
+    updateGameBoard([row('CRANE', 'caaaa'), row('CLOUD', 'ccaaa')])
+    const next = selectLetterStatuses(useGameStore.getState())
+    expect(next).not.toBe(first)
+    expect(next.L).toBe('correct')
+  })
+})
+
+describe('restoreSnapshot', () => {
+  const room: Room = {
+    code: 'ABCD',
+    hostId: 'socket-a',
+    players: [
+      { id: 'socket-a', username: 'alice', playerId: 'player-a', score: 0 },
+      { id: 'socket-b', username: 'bob', playerId: 'player-b', score: 0 }
+    ],
+    solutionWord: 'TRUST',
+    status: 'playing',
+    mode: 'battleRoyale',
+    maxPlayers: 4
+  }
+  const session: GameSession = {
+    roomCode: 'ABCD',
+    playerId: 'player-a',
+    username: 'alice',
+    isHost: true,
+    isSpectator: false,
+    rejoinToken: null,
+    scores: { 'socket-a': 400, 'socket-b': 250 },
+    savedAt: 0
+  }
+  const board = [row('CRANE', 'aacaa'), row('STAIR', 'ppaap')]
+  const roundScore = calculateScore(
+    { board, maxAttempts: 6, timeMs: null, timeLimitMs: null },
+    SCORING_WEIGHTS.battleRoyale
+  )
+
+  it('adds this round to the totals saved before the disconnect', () => {
+    useGameStore
+      .getState()
+      .restoreSnapshot(
+        { roomCode: 'ABCD', room, status: 'playing', boards: { 'socket-a': board } },
+        session
+      )
+
+    const state = useGameStore.getState()
+    expect(state.playerScores).toEqual({ 'socket-a': 400 + roundScore, 'socket-b': 250 })
+    expect(state.roundScores).toEqual({ 'socket-a': roundScore })
+    expect(state.gameBoard).toBe(board)
+  })
+
+  it("prefers the server's totals over the saved ones", () => {
+    useGameStore.getState().restoreSnapshot(
+      {
+        roomCode: 'ABCD',
+        room,
+        status: 'playing',
+        boards: { 'socket-a': board },
+        scores: { 'socket-a': 900 }
+      },
+      session
+    )
+    expect(useGameStore.getState().playerScores).toEqual({ 'socket-a': 900 + roundScore })
+  })
+})
@@ -1,24 +1,79 @@
 import { create } from 'zustand'
+import { apiService } from '../services/apiService'
+import type { EliminationRule, RoundStanding } from '../lib/rounds'
+import type { SeriesScore } from '../lib/series'
+import { getNextPlayer, switchTurn } from '../lib/chessClock'
+import type { ChessClockState } from '../lib/chessClock'
+import { calculateScore, SCORING_WEIGHTS } from '../lib/scoring'
+import { getRevealedRows } from '../lib/utils'
+import type { GameSession, RoomSnapshot } from '../lib/session'
+import { getRestoredScores } from '../lib/session'
+import { findPlayer } from '../lib/playerId'
 
 export interface Player {
   id: string
   username: string
+  // Stable id the client joined with; ratings and stats are kept against it
+  playerId?: string
+  // Emoji picked in the player's profile
+  avatar?: string
   score: number
   eliminated?: boolean
   guesses?: Array<{ word: string; attempt: number }>
   won?: boolean
 }
 
-export interface Room {
+export type GameMode = 'duel' | 'battleRoyale' | 'chessClock'
+
+// Watches a room without taking a player slot
+export interface Spectator {
+  id: string
+  username: string
+}
+
+// Per-room rules chosen by the host when the room is created
+export interface RoomSettings {
+  hardMode: boolean
+  wordLength: number
+  maxAttempts: number
+  // Only answer-list words may be guessed, not the full dictionary
+  strictGuesses: boolean
+  // Battle Royale only: who is knocked out at the end of each round
+  eliminationRule: EliminationRule
+  // Duel only: games in a best-of-N series, 1 for a single game
+  seriesLength: number
+  // Seconds each game (or round) lasts, counted from the server's gameStartTime
+  timeLimit: number
+  // Chess clock only: each player's time bank and the seconds added back per guess
+  clockTime: number
+  clockIncrement: number
+}
+
+export const DEFAULT_ROOM_SETTINGS: RoomSettings = {
+  hardMode: false,
+  wordLength: 5,
+  maxAttempts: apiService.getGameConfig().maxGuessAttempts,
+  strictGuesses: false,
+  eliminationRule: 'slowest',
+  seriesLength: 1,
+  timeLimit: Math.round(apiService.getGameConfig().gameTimeout / 1000),
+  clockTime: 180,
+  clockIncrement: 2
+}
+
+export interface Room extends Partial<RoomSettings> {
   code: string
   hostId: string
   players: Player[]
+  spectators?: Spectator[]
   solutionWord: string | null
   status: 'waiting' | 'playing' | 'finished'
-  mode: 'duel' | 'battleRoyale'
+  mode: GameMode
   maxPlayers: number
   gameStartTime?: Date | null
+  // Current Battle Royale round, or the current game of a duel series
   roundNumber?: number
+  seriesScore?: SeriesScore
 }
 
 // Game board tile interface
@@ -27,28 +82,120 @@ export interface GameTile {
   status: 'correct' | 'present' | 'absent' | 'unused'
 }
 
+export function getRoomWordLength(room: Room | null): number {
+  return room?.wordLength ?? DEFAULT_ROOM_SETTINGS.wordLength
+}
+
+export function getRoomMaxAttempts(room: Room | null): number {
+  return room?.maxAttempts ?? DEFAULT_ROOM_SETTINGS.maxAttempts
+}
+
+export function getRoomTimeLimit(room: Room | null): number {
+  return room?.timeLimit ?? DEFAULT_ROOM_SETTINGS.timeLimit
+}
+
+// Identifies one game of a room, including each round or series game
+export function getRoomGameKey(room: Room): string {
+  return `${room.code}:${room.roundNumber ?? 1}:${room.gameStartTime ?? ''}`
+}
+
+// Solved, or every attempt used
+export function isBoardFinished(board: GameTile[][], maxAttempts: number): boolean {
+  const rows = getRevealedRows(board)
+  return (
+    rows.length >= maxAttempts ||
+    (rows.length > 0 && rows[rows.length - 1].every((tile) => tile.status === 'correct'))
+  )
+}
+
+export function createEmptyBoard(rows: number, wordLength: number): GameTile[][] {
+  return Array(rows)
+    .fill(null)
+    .map(() => Array(wordLength).fill({ letter: '', status: 'unused' as const }))
+}
+
+// Best status a letter has reached on the board: correct > present > absent
+export type LetterStatus = Exclude<GameTile['status'], 'unused'>
+
+const LETTER_STATUS_RANK: Record<LetterStatus, number> = {
+  absent: 1,
+  present: 2,
+  correct: 3
+}
+
+export function getLetterStatuses(board: GameTile[][]): Record<string, LetterStatus> {
+  const statuses: Record<string, LetterStatus> = {}
+
+  for (const row of board) {
+    for (const tile of row) {
+      if (!tile.letter || tile.status === 'unused') continue
+      const current = statuses[tile.letter]
+      if (!current || LETTER_STATUS_RANK[tile.status] > LETTER_STATUS_RANK[current]) {
+        statuses[tile.letter] = tile.status
+      }
+    }
+  }
+
+  return statuses
+}
+
+// Cached per board so components can subscribe without re-rendering on every store change
+const letterStatusCache = new WeakMap<GameTile[][], Record<string, LetterStatus>>()
+
+export function selectLetterStatuses(state: GameState): Record<string, LetterStatus> {
+  let statuses = letterStatusCache.get(state.gameBoard)
+  if (!statuses) {
+    statuses = getLetterStatuses(state.gameBoard)
+    letterStatusCache.set(state.gameBoard, statuses)
+  }
+  return statuses
+}
+
 export interface GameState {
   currentRoom: Room | null
   currentPlayer: string | null
   isHost: boolean
+  isSpectator: boolean
   gameBoard: GameTile[][]
+  // Every player's board by player id, filled from guess broadcasts
+  playerBoards: Record<string, GameTile[][]>
+  // Running totals by player id across every round or series game, and this round's share of them
+  playerScores: Record<string, number>
+  roundScores: Record<string, number>
   currentGuess: string
   gameStatus: 'waiting' | 'playing' | 'finished'
   winner: string | null
-  mode: 'duel' | 'battleRoyale'
+  // The word, once game-over has revealed it; room updates stop arriving after the game starts
+  revealedSolution: string | null
+  mode: GameMode
   eliminatedPlayers: string[]
   activePlayers: Player[]
+  // Local timestamps (ms) of when this client saw the game start and finish
+  gameStartedAt: number | null
+  gameEndedAt: number | null
+  // Set between Battle Royale rounds while the intermission is shown
+  roundStandings: RoundStanding[] | null
+  chessClock: ChessClockState | null
 }
 
 export interface GameActions {
   setCurrentRoom: (room: Room) => void
   setCurrentPlayer: (username: string) => void
   setIsHost: (isHost: boolean) => void
+  setIsSpectator: (isSpectator: boolean) => void
   updateGameBoard: (board: GameTile[][]) => void
+  // Also rescores the board; `timeMs` is how far into the game the guess landed
+  updatePlayerBoard: (
+    playerId: string,
+    attempt: number,
+    tiles: GameTile[],
+    timeMs?: number | null
+  ) => void
   setCurrentGuess: (guess: string) => void
   setGameStatus: (status: 'waiting' | 'playing' | 'finished') => void
   setWinner: (winner: string | null) => void
-  setMode: (mode: 'duel' | 'battleRoyale') => void
+  setRevealedSolution: (solution: string | null) => void
+  setMode: (mode: GameMode) => void
   setEliminatedPlayers: (players: string[]) => void
   setActivePlayers: (players: Player[]) => void
   resetGame: () => void
@@ -56,6 +203,24 @@ export interface GameActions {
   removePlayer: (playerId: string) => void
   updatePlayer: (playerId: string, updates: Partial<Player>) => void
   eliminatePlayer: (playerId: string) => void
+  setRoundStandings: (standings: RoundStanding[] | null) => void
+  startNextRound: (roundNumber: number) => void
+  setChessClock: (clock: ChessClockState | null) => void
+  // `at` is the guess time on the server's clock
+  passChessClockTurn: (fromPlayerId: string, at: number) => void
+  // Rebuild the game from the server after a rejoin
+  restoreSnapshot: (snapshot: RoomSnapshot, session: GameSession) => void
+}
+
+function getStatusTimestamps(
+  state: GameState,
+  status: GameState['gameStatus']
+): Pick<GameState, 'gameStartedAt' | 'gameEndedAt'> {
+  if (status === state.gameStatus)
+    return { gameStartedAt: state.gameStartedAt, gameEndedAt: state.gameEndedAt }
+  if (status === 'playing') return { gameStartedAt: Date.now(), gameEndedAt: null }
+  if (status === 'finished') return { gameStartedAt: state.gameStartedAt, gameEndedAt: Date.now() }
+  return { gameStartedAt: null, gameEndedAt: null }
 }
 
 export const useGameStore = create<GameState & GameActions>((set) => ({
@@ -63,49 +228,117 @@ export const useGameStore = create<GameState & GameActions>((set) => ({
   currentRoom: null,
   currentPlayer: null,
   isHost: false,
-  gameBoard: Array(6).fill(null).map(() => Array(5).fill({ letter: '', status: 'unused' as const })),
+  isSpectator: false,
+  gameBoard: createEmptyBoard(DEFAULT_ROOM_SETTINGS.maxAttempts, DEFAULT_ROOM_SETTINGS.wordLength),
+  playerBoards: {},
+  playerScores: {},
+  roundScores: {},
   currentGuess: '',
   gameStatus: 'waiting',
   winner: null,
+  revealedSolution: null,
   mode: 'duel',
   eliminatedPlayers: [],
   activePlayers: [],
+  gameStartedAt: null,
+  gameEndedAt: null,
+  roundStandings: null,
+  chessClock: null,
 
   // Actions
-  setCurrentRoom: (room) => set({ 
-    currentRoom: room,
-    mode: room.mode,
-    gameStatus: room.status,
-    activePlayers: room.players.filter(p => !p.eliminated),
-    eliminatedPlayers: room.players.filter(p => p.eliminated).map(p => p.id)
-  }),
+  setCurrentRoom: (room) =>
+    set((state) => {
+      const wordLength = getRoomWordLength(room)
+      const maxAttempts = getRoomMaxAttempts(room)
+      // Only rebuild the board when the room's dimensions change, so room updates don't wipe guesses
+      const boardMatchesRoom =
+        state.gameBoard.length === maxAttempts && state.gameBoard[0]?.length === wordLength
+
+      return {
+        currentRoom: room,
+        mode: room.mode,
+        gameStatus: room.status,
+        ...getStatusTimestamps(state, room.status),
+        activePlayers: room.players.filter((p) => !p.eliminated),
+        eliminatedPlayers: room.players.filter((p) => p.eliminated).map((p) => p.id),
+        ...(boardMatchesRoom
+          ? {}
+          : { gameBoard: createEmptyBoard(maxAttempts, wordLength), currentGuess: '' })
+      }
+    }),
 
   setCurrentPlayer: (username) => set({ currentPlayer: username }),
 
   setIsHost: (isHost) => set({ isHost }),
 
+  setIsSpectator: (isSpectator) => set({ isSpectator }),
+
   updateGameBoard: (board) => set({ gameBoard: board }),
 
+  updatePlayerBoard: (playerId, attempt, tiles, timeMs = null) =>
+    set((state) => {
+      const board =
+        state.playerBoards[playerId] ??
+        createEmptyBoard(
+          getRoomMaxAttempts(state.currentRoom),
+          getRoomWordLength(state.currentRoom)
+        )
+      if (attempt < 0 || attempt >= board.length) return {}
+
+      const nextBoard = board.map((row, index) => (index === attempt ? tiles : row))
+      const roundScore = calculateScore(
+        {
+          board: nextBoard,
+          maxAttempts: getRoomMaxAttempts(state.currentRoom),
+          timeMs,
+          timeLimitMs: getRoomTimeLimit(state.currentRoom) * 1000
+        },
+        SCORING_WEIGHTS[state.currentRoom?.mode ?? state.mode]
+      )
+      const previousTotal = (state.playerScores[playerId] ?? 0) - (state.roundScores[playerId] ?? 0)
+
+      return {
+        playerBoards: { ...state.playerBoards, [playerId]: nextBoard },
+        roundScores: { ...state.roundScores, [playerId]: roundScore },
+        playerScores: { ...state.playerScores, [playerId]: previousTotal + roundScore }
+      }
+    }),
+
   setCurrentGuess: (guess) => set({ currentGuess: guess }),
 
-  setGameStatus: (status) => set({ gameStatus: status }),
+  setGameStatus: (status) =>
+    set((state) => ({ gameStatus: status, ...getStatusTimestamps(state, status) })),
 
   setWinner: (winner) => set({ winner }),
 
+  setRevealedSolution: (solution) => set({ revealedSolution: solution }),
+
   setMode: (mode) => set({ mode }),
 
   setEliminatedPlayers: (players) => set({ eliminatedPlayers: players }),
 
   setActivePlayers: (players) => set({ activePlayers: players }),
 
-  resetGame: () => set({
-    gameBoard: Array(6).fill(null).map(() => Array(5).fill({ letter: '', status: 'unused' as const })),
-    currentGuess: '',
-    gameStatus: 'waiting',
-    winner: null,
-    eliminatedPlayers: [],
-    activePlayers: []
-  }),
+  resetGame: () =>
+    set((state) => ({
+      gameBoard: createEmptyBoard(
+        getRoomMaxAttempts(state.currentRoom),
+        getRoomWordLength(state.currentRoom)
+      ),
+      currentGuess: '',
+      playerBoards: {},
+      playerScores: {},
+      roundScores: {},
+      gameStatus: 'waiting',
+      winner: null,
+      revealedSolution: null,
+      eliminatedPlayers: [],
+      activePlayers: [],
+      gameStartedAt: null,
+      gameEndedAt: null,
+      roundStandings: null,
+      chessClock: null
+    })),
 
   addPlayer: (player) => set((state) => ({
     activePlayers: [...state.activePlayers, player]
@@ -121,8 +354,99 @@ export const useGameStore = create<GameState & GameActions>((set) => ({
     )
   })),
 
-  eliminatePlayer: (playerId) => set((state) => ({
-    eliminatedPlayers: [...state.eliminatedPlayers, playerId],
-    activePlayers: state.activePlayers.filter(p => p.id !== playerId)
-  }))
+  // Round standings and the server's player-eliminated can both report the same player
+  eliminatePlayer: (playerId) =>
+    set((state) => ({
+      eliminatedPlayers: state.eliminatedPlayers.includes(playerId)
+        ? state.eliminatedPlayers
+        : [...state.eliminatedPlayers, playerId],
+      activePlayers: state.activePlayers.filter((p) => p.id !== playerId)
+    })),
+
+  setRoundStandings: (standings) => set({ roundStandings: standings }),
+
+  // Fresh boards for the next word; eliminations carry over from the previous round
+  startNextRound: (roundNumber) =>
+    set((state) => ({
+      currentRoom: state.currentRoom ? { ...state.currentRoom, roundNumber } : null,
+      gameBoard: createEmptyBoard(
+        getRoomMaxAttempts(state.currentRoom),
+        getRoomWordLength(state.currentRoom)
+      ),
+      currentGuess: '',
+      playerBoards: {},
+      revealedSolution: null,
+      // Totals carry over into the next round
+      roundScores: {},
+      roundStandings: null
+    })),
+
+  setChessClock: (clock) => set({ chessClock: clock }),
+
+  // Ignored unless it is that player's turn, so a repeated guess broadcast can't skip a turn
+  passChessClockTurn: (fromPlayerId, at) =>
+    set((state) => {
+      if (!state.chessClock || state.chessClock.activePlayerId !== fromPlayerId) return {}
+      const players = state.currentRoom?.players ?? []
+      const maxAttempts = getRoomMaxAttempts(state.currentRoom)
+      // Solved, out of attempts or eliminated players would only sit on the turn until they flag
+      const finishedIds = players
+        .filter(
+          (p) =>
+            p.eliminated ||
+            state.eliminatedPlayers.includes(p.id) ||
+            isBoardFinished(state.playerBoards[p.id] ?? [], maxAttempts)
+        )
+        .map((p) => p.id)
+      const increment = state.currentRoom?.clockIncrement ?? DEFAULT_ROOM_SETTINGS.clockIncrement
+      const nextPlayerId = getNextPlayer(
+        players.map((p) => p.id),
+        fromPlayerId,
+        finishedIds
+      )
+      return { chessClock: switchTurn(state.chessClock, nextPlayerId, increment, at) }
+    }),
+
+  // Boards come back without guess times, so restored scores carry no speed points. Banks are
+  // charged from the saved turn start, so time spent disconnected still counts against the player
+  restoreSnapshot: (snapshot, session) =>
+    set((state) => {
+      const { room, boards } = snapshot
+      const maxAttempts = getRoomMaxAttempts(room)
+      const wordLength = getRoomWordLength(room)
+      const roundScores = Object.fromEntries(
+        Object.entries(boards).map(([playerId, board]) => [
+          playerId,
+          calculateScore(
+            { board, maxAttempts, timeMs: null, timeLimitMs: null },
+            SCORING_WEIGHTS[room.mode]
+          )
+        ])
+      )
+      const localPlayer = findPlayer(room.players, session.playerId, session.username)
+
+      return {
+        currentRoom: room,
+        currentPlayer: session.username,
+        isHost: session.isHost,
+        isSpectator: session.isSpectator,
+        mode: room.mode,
+        gameStatus: snapshot.status,
+        ...getStatusTimestamps(state, snapshot.status),
+        winner: snapshot.winner ?? null,
+        activePlayers: room.players.filter((p) => !p.eliminated),
+        eliminatedPlayers: room.players.filter((p) => p.eliminated).map((p) => p.id),
+        playerBoards: boards,
+        roundScores,
+        // Earlier rounds and series games can't be rebuilt from the boards, so their totals come
+        // from the server or, failing that, the saved session
+        playerScores: getRestoredScores(snapshot.scores ?? session.scores ?? {}, roundScores),
+        gameBoard:
+          (localPlayer && boards[localPlayer.id]) ?? createEmptyBoard(maxAttempts, wordLength),
+        currentGuess: '',
+        // The server's clock wins; otherwise the one saved locally at the last turn switch
+        chessClock:
+          room.mode === 'chessClock' ? (snapshot.chessClock ?? session.chessClock ?? null) : null
+      }
+    })
 }))
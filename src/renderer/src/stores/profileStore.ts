@@ -0,0 +1,48 @@
+import { create } from 'zustand'
+import { createProfile, loadProfile, saveProfile } from '../lib/profile'
+import type { PlayerProfile } from '../lib/profile'
+import { setLocalPlayerId } from '../lib/playerId'
+
+export interface ProfileState {
+  // A fresh profile until the saved one has loaded; its id is stable either way
+  profile: PlayerProfile
+  isLoaded: boolean
+}
+
+export interface ProfileActions {
+  loadProfile: () => Promise<void>
+  updateProfile: (updates: Partial<Omit<PlayerProfile, 'id' | 'updatedAt'>>) => Promise<void>
+}
+
+export const useProfileStore = create<ProfileState & ProfileActions>((set, get) => ({
+  profile: createProfile(),
+  isLoaded: false,
+
+  loadProfile: async () => {
+    if (get().isLoaded) return
+    try {
+      const saved = await loadProfile()
+      if (saved) {
+        // The saved profile owns the id, so ratings and stats follow it
+        setLocalPlayerId(saved.id)
+        set({ profile: saved })
+      }
+    } catch (error) {
+      console.warn('Could not load profile:', error)
+    }
+    set({ isLoaded: true })
+  },
+
+  updateProfile: async (updates) => {
+    // Saving before the file has loaded would replace the saved id
+    await get().loadProfile()
+
+    const profile = { ...get().profile, ...updates, updatedAt: new Date().toISOString() }
+    set({ profile })
+    try {
+      await saveProfile(profile)
+    } catch (error) {
+      console.warn('Could not save profile:', error)
+    }
+  }
+}))
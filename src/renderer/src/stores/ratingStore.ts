@@ -0,0 +1,89 @@
+import { create } from 'zustand'
+import type { Player } from './gameStore'
+import {
+  createRating,
+  getDuelOutcome,
+  getRatingKey,
+  loadRatingTable,
+  rateDuel,
+  saveRatingTable
+} from '../lib/rating'
+import type { RatingTable } from '../lib/rating'
+
+export interface RatingState {
+  ratings: RatingTable
+  isLoaded: boolean
+  // Rating change from the last rated game, by player id
+  lastChanges: Record<string, number>
+  // Identifies the last rated game, so a repeated game-over can't rate it twice
+  lastRatedGame: string | null
+}
+
+export interface RatingActions {
+  loadRatings: () => Promise<void>
+  recordDuel: (gameKey: string, players: [Player, Player], winner: string | null) => Promise<void>
+}
+
+export const useRatingStore = create<RatingState & RatingActions>((set, get) => ({
+  ratings: {},
+  isLoaded: false,
+  lastChanges: {},
+  lastRatedGame: null,
+
+  loadRatings: async () => {
+    if (get().isLoaded) return
+    try {
+      const ratings = await loadRatingTable()
+      // Keep anything rated while the file was loading
+      set((state) => ({ ratings: { ...ratings, ...state.ratings }, isLoaded: true }))
+    } catch (error) {
+      console.warn('Could not load ratings:', error)
+      set({ isLoaded: true })
+    }
+  },
+
+  // An opponent without a player id is rated as a fresh player and isn't saved
+  recordDuel: async (gameKey, [a, b], winner) => {
+    if (get().lastRatedGame === gameKey) return
+    set({ lastRatedGame: gameKey })
+    // Saving before the file has loaded would wipe everyone else's rating
+    await get().loadRatings()
+
+    const state = get()
+
+    const keyA = getRatingKey(a)
+    const keyB = getRatingKey(b)
+    if (!keyA && !keyB) return
+
+    const outcome = getDuelOutcome(a, b, winner)
+    if (outcome === null) {
+      console.warn('Not rating a duel whose winner is neither player:', winner)
+      return
+    }
+
+    const before = [
+      (keyA && state.ratings[keyA]) || createRating(a.username),
+      (keyB && state.ratings[keyB]) || createRating(b.username)
+    ]
+    const after = rateDuel(
+      { ...before[0], username: a.username },
+      { ...before[1], username: b.username },
+      outcome
+    )
+
+    const ratings = { ...state.ratings }
+    const lastChanges: Record<string, number> = {}
+    ;[keyA, keyB].forEach((key, index) => {
+      if (!key) return
+      ratings[key] = after[index]
+      lastChanges[key] = after[index].rating - before[index].rating
+    })
+
+    set({ ratings, lastChanges })
+    try {
+      await saveRatingTable(ratings)
+    } catch (error) {
+      console.warn('Could not save ratings:', error)
+    }
+  }
+}))
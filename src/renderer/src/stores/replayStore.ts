@@ -0,0 +1,101 @@
+import { create } from 'zustand'
+import type { GameTile, Room } from './gameStore'
+import { getRoomMaxAttempts, getRoomWordLength } from './gameStore'
+import { REPLAY_FORMAT_VERSION } from '../lib/replay'
+import type { Replay, ReplayEvent } from '../lib/replay'
+
+export interface ReplayState {
+  // The match being recorded, or the last one once it has finished
+  replay: Replay | null
+  recordingStartedAt: number | null
+}
+
+export interface ReplayActions {
+  startRecording: (room: Room) => void
+  recordRoom: (room: Room) => void
+  recordStart: (players: string[]) => void
+  recordGuess: (username: string, attempt: number, tiles: GameTile[]) => void
+  recordElimination: (username: string) => void
+  recordGameOver: (winner: string | null, solution: string | null) => void
+  clearRecording: () => void
+}
+
+function appendEvent(state: ReplayState, event: ReplayEvent): Partial<ReplayState> {
+  if (!state.replay) return {}
+  return { replay: { ...state.replay, events: [...state.replay.events, event] } }
+}
+
+function getElapsed(state: ReplayState): number {
+  return state.recordingStartedAt === null ? 0 : Date.now() - state.recordingStartedAt
+}
+
+function getJoinedPlayers(replay: Replay): Set<string> {
+  const joined = new Set<string>()
+  for (const event of replay.events) {
+    if (event.type === 'join') joined.add(event.username)
+  }
+  return joined
+}
+
+export const useReplayStore = create<ReplayState & ReplayActions>((set) => ({
+  replay: null,
+  recordingStartedAt: null,
+
+  // Keeps an unfinished recording of the same room, so remounting the room page doesn't lose it
+  startRecording: (room) =>
+    set((state) => {
+      const current = state.replay
+      const isOngoing =
+        current?.roomCode === room.code &&
+        !current.events.some((event) => event.type === 'game-over')
+      if (isOngoing) return {}
+
+      return {
+        recordingStartedAt: Date.now(),
+        replay: {
+          version: REPLAY_FORMAT_VERSION,
+          roomCode: room.code,
+          mode: room.mode,
+          wordLength: getRoomWordLength(room),
+          maxAttempts: getRoomMaxAttempts(room),
+          recordedAt: new Date().toISOString(),
+          events: room.players.map((player) => ({
+            type: 'join' as const,
+            at: 0,
+            username: player.username
+          }))
+        }
+      }
+    }),
+
+  // Room updates carry the full player list, so joins are recorded as newly seen names
+  recordRoom: (room) =>
+    set((state) => {
+      if (!state.replay || state.replay.roomCode !== room.code) return {}
+      const joined = getJoinedPlayers(state.replay)
+      const at = getElapsed(state)
+      const joins = room.players
+        .filter((player) => !joined.has(player.username))
+        .map((player) => ({ type: 'join' as const, at, username: player.username }))
+      if (joins.length === 0) return {}
+      return { replay: { ...state.replay, events: [...state.replay.events, ...joins] } }
+    }),
+
+  recordStart: (players) =>
+    set((state) => appendEvent(state, { type: 'start', at: getElapsed(state), players })),
+
+  recordGuess: (username, attempt, tiles) =>
+    set((state) =>
+      appendEvent(state, { type: 'guess', at: getElapsed(state), username, attempt, tiles })
+    ),
+
+  recordElimination: (username) =>
+    set((state) => appendEvent(state, { type: 'eliminated', at: getElapsed(state), username })),
+
+  recordGameOver: (winner, solution) =>
+    set((state) =>
+      appendEvent(state, { type: 'game-over', at: getElapsed(state), winner, solution })
+    ),
+
+  clearRecording: () => set({ replay: null, recordingStartedAt: null })
+}))
@@ -0,0 +1,50 @@
+import { create } from 'zustand'
+import { loadGameRecords, saveGameRecords } from '../lib/stats'
+import type { GameRecord } from '../lib/stats'
+
+export interface StatsState {
+  games: GameRecord[]
+  isLoaded: boolean
+}
+
+export interface StatsActions {
+  loadStats: () => Promise<void>
+  recordGame: (record: GameRecord) => Promise<void>
+}
+
+export const useStatsStore = create<StatsState & StatsActions>((set, get) => ({
+  games: [],
+  isLoaded: false,
+
+  loadStats: async () => {
+    if (get().isLoaded) return
+    try {
+      const saved = await loadGameRecords()
+      // Keep anything recorded while the file was loading
+      set((state) => ({
+        games: [
+          ...saved.filter((game) => !state.games.some((recorded) => recorded.id === game.id)),
+          ...state.games
+        ],
+        isLoaded: true
+      }))
+    } catch (error) {
+      console.warn('Could not load stats:', error)
+      set({ isLoaded: true })
+    }
+  },
+
+  recordGame: async (record) => {
+    // Saving before the file has loaded would wipe the history
+    await get().loadStats()
+    if (get().games.some((game) => game.id === record.id)) return
+
+    const games = [...get().games, record]
+    set({ games })
+    try {
+      await saveGameRecords(games)
+    } catch (error) {
+      console.warn('Could not save stats:', error)
+    }
+  }
+}))
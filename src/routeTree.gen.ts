@@ -9,16 +9,30 @@
 // Additionally, you should also exclude this file from your linter and/or formatter to prevent it from being checked or modified.
 
 import { Route as rootRouteImport } from './renderer/src/routes/__root'
+import { Route as StatsRouteImport } from './renderer/src/routes/stats'
 import { Route as ResultsRouteImport } from './renderer/src/routes/results'
+import { Route as PracticeRouteImport } from './renderer/src/routes/practice'
 import { Route as LobbyRouteImport } from './renderer/src/routes/lobby'
 import { Route as GameRouteImport } from './renderer/src/routes/game'
+import { Route as DailyRouteImport } from './renderer/src/routes/daily'
 import { Route as AboutRouteImport } from './renderer/src/routes/about'
 import { Route as IndexRouteImport } from './renderer/src/routes/index'
 import { Route as RoomCodeRouteImport } from './renderer/src/routes/room.$code'
+import { Route as RoomCodeWatchRouteImport } from './renderer/src/routes/room.$code_.watch'
 
+const StatsRoute = StatsRouteImport.update({
+  id: '/stats',
+  path: '/stats',
+  getParentRoute: () => rootRouteImport
+} as any)
 const ResultsRoute = ResultsRouteImport.update({
   id: '/results',
   path: '/results',
+  getParentRoute: () => rootRouteImport
+} as any)
+const PracticeRoute = PracticeRouteImport.update({
+  id: '/practice',
+  path: '/practice',
   getParentRoute: () => rootRouteImport,
 } as any)
 const LobbyRoute = LobbyRouteImport.update({
@@ -29,6 +43,11 @@ const LobbyRoute = LobbyRouteImport.update({
 const GameRoute = GameRouteImport.update({
   id: '/game',
   path: '/game',
+  getParentRoute: () => rootRouteImport
+} as any)
+const DailyRoute = DailyRouteImport.update({
+  id: '/daily',
+  path: '/daily',
   getParentRoute: () => rootRouteImport,
 } as any)
 const AboutRoute = AboutRouteImport.update({
@@ -46,58 +65,110 @@ const RoomCodeRoute = RoomCodeRouteImport.update({
   path: '/room/$code',
   getParentRoute: () => rootRouteImport,
 } as any)
+const RoomCodeWatchRoute = RoomCodeWatchRouteImport.update({
+  id: '/room/$code_/watch',
+  path: '/room/$code/watch',
+  getParentRoute: () => rootRouteImport
+} as any)
 
 export interface FileRoutesByFullPath {
   '/': typeof IndexRoute
   '/about': typeof AboutRoute
+  '/daily': typeof DailyRoute
   '/game': typeof GameRoute
   '/lobby': typeof LobbyRoute
+  '/practice': typeof PracticeRoute
   '/results': typeof ResultsRoute
+  '/stats': typeof StatsRoute
   '/room/$code': typeof RoomCodeRoute
+  '/room/$code/watch': typeof RoomCodeWatchRoute
 }
 export interface FileRoutesByTo {
   '/': typeof IndexRoute
   '/about': typeof AboutRoute
+  '/daily': typeof DailyRoute
   '/game': typeof GameRoute
   '/lobby': typeof LobbyRoute
+  '/practice': typeof PracticeRoute
   '/results': typeof ResultsRoute
+  '/stats': typeof StatsRoute
   '/room/$code': typeof RoomCodeRoute
+  '/room/$code/watch': typeof RoomCodeWatchRoute
 }
 export interface FileRoutesById {
   __root__: typeof rootRouteImport
   '/': typeof IndexRoute
   '/about': typeof AboutRoute
+  '/daily': typeof DailyRoute
   '/game': typeof GameRoute
   '/lobby': typeof LobbyRoute
+  '/practice': typeof PracticeRoute
   '/results': typeof ResultsRoute
+  '/stats': typeof StatsRoute
   '/room/$code': typeof RoomCodeRoute
+  '/room/$code_/watch': typeof RoomCodeWatchRoute
 }
 export interface FileRouteTypes {
   fileRoutesByFullPath: FileRoutesByFullPath
-  fullPaths: '/' | '/about' | '/game' | '/lobby' | '/results' | '/room/$code'
+  fullPaths:
+    | '/'
+    | '/about'
+    | '/daily'
+    | '/game'
+    | '/lobby'
+    | '/practice'
+    | '/results'
+    | '/stats'
+    | '/room/$code'
+    | '/room/$code/watch'
   fileRoutesByTo: FileRoutesByTo
-  to: '/' | '/about' | '/game' | '/lobby' | '/results' | '/room/$code'
+  to:
+    | '/'
+    | '/about'
+    | '/daily'
+    | '/game'
+    | '/lobby'
+    | '/practice'
+    | '/results'
+    | '/stats'
+    | '/room/$code'
+    | '/room/$code/watch'
   id:
     | '__root__'
     | '/'
     | '/about'
+    | '/daily'
     | '/game'
     | '/lobby'
+    | '/practice'
     | '/results'
+    | '/stats'
     | '/room/$code'
+    | '/room/$code_/watch'
   fileRoutesById: FileRoutesById
 }
 export interface RootRouteChildren {
   IndexRoute: typeof IndexRoute
   AboutRoute: typeof AboutRoute
+  DailyRoute: typeof DailyRoute
   GameRoute: typeof GameRoute
   LobbyRoute: typeof LobbyRoute
+  PracticeRoute: typeof PracticeRoute
   ResultsRoute: typeof ResultsRoute
+  StatsRoute: typeof StatsRoute
   RoomCodeRoute: typeof RoomCodeRoute
+  RoomCodeWatchRoute: typeof RoomCodeWatchRoute
 }
 
 declare module '@tanstack/react-router' {
   interface FileRoutesByPath {
+    '/stats': {
+      id: '/stats'
+      path: '/stats'
+      fullPath: '/stats'
+      preLoaderRoute: typeof StatsRouteImport
+      parentRoute: typeof rootRouteImport
+    }
     '/results': {
       id: '/results'
       path: '/results'
@@ -105,6 +176,13 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof ResultsRouteImport
       parentRoute: typeof rootRouteImport
     }
+    '/practice': {
+      id: '/practice'
+      path: '/practice'
+      fullPath: '/practice'
+      preLoaderRoute: typeof PracticeRouteImport
+      parentRoute: typeof rootRouteImport
+    }
     '/lobby': {
       id: '/lobby'
       path: '/lobby'
@@ -119,6 +197,13 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof GameRouteImport
       parentRoute: typeof rootRouteImport
     }
+    '/daily': {
+      id: '/daily'
+      path: '/daily'
+      fullPath: '/daily'
+      preLoaderRoute: typeof DailyRouteImport
+      parentRoute: typeof rootRouteImport
+    }
     '/about': {
       id: '/about'
       path: '/about'
@@ -140,16 +225,27 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof RoomCodeRouteImport
       parentRoute: typeof rootRouteImport
     }
+    '/room/$code_/watch': {
+      id: '/room/$code_/watch'
+      path: '/room/$code/watch'
+      fullPath: '/room/$code/watch'
+      preLoaderRoute: typeof RoomCodeWatchRouteImport
+      parentRoute: typeof rootRouteImport
+    }
   }
 }
 
 const rootRouteChildren: RootRouteChildren = {
   IndexRoute: IndexRoute,
   AboutRoute: AboutRoute,
+  DailyRoute: DailyRoute,
   GameRoute: GameRoute,
   LobbyRoute: LobbyRoute,
+  PracticeRoute: PracticeRoute,
   ResultsRoute: ResultsRoute,
+  StatsRoute: StatsRoute,
   RoomCodeRoute: RoomCodeRoute,
+  RoomCodeWatchRoute: RoomCodeWatchRoute
 }
 export const routeTree = rootRouteImport
   ._addFileChildren(rootRouteChildren)